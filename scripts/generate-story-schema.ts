@@ -0,0 +1,38 @@
+/**
+ * Story schema generator
+ *
+ * Regenerates the marker definitions in schemas/story.schema.json from the
+ * marker type registry (src/lib/translation/markers/). Run after adding or
+ * changing a marker type; validate:schemas fails while the file is stale.
+ *
+ * Usage:
+ *   npm run generate:story-schema
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { isDeepStrictEqual } from 'util';
+import {
+  buildStorySchema,
+  getRegisteredMarkerTypes,
+} from '../src/lib/translation/markers/index.ts';
+
+const SCHEMA_PATH = 'schemas/story.schema.json';
+
+async function main() {
+  const current = JSON.parse(await readFile(SCHEMA_PATH, 'utf-8'));
+  const generated = buildStorySchema(current);
+
+  // Keep the hand-formatted file untouched when nothing changed
+  if (isDeepStrictEqual(current, generated)) {
+    console.log(`✓ ${SCHEMA_PATH} is up to date`);
+    return;
+  }
+
+  await writeFile(SCHEMA_PATH, JSON.stringify(generated, null, 2) + '\n');
+  console.log(`✓ Wrote ${SCHEMA_PATH} (${getRegisteredMarkerTypes().length} marker types)`);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+/**
+ * Pre-translated story migration
+ *
+ * Converts pre-translated stories (story.{lang}-{country}.yaml) from inline
+ * [[MARKER:...]] text to the segmented format (format: 3, see
+ * src/lib/translation/pretranslated-story.ts). Each file is read back after
+ * conversion and only written when it yields exactly the same markers and
+ * text. Files with marker syntax errors are reported and left unchanged.
+ *
+ * Usage:
+ *   npm run migrate:pretranslated            # Convert all inline files
+ *   npm run migrate:pretranslated -- --check # Only list files to convert
+ *
+ * Run `npm run format` afterwards to restore the repository's YAML style.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { isDeepStrictEqual } from 'util';
+import { glob } from 'glob';
+import yaml from 'js-yaml';
+import {
+  isSegmented,
+  readPreTranslatedFields,
+  toSegmentedStory,
+  TRANSLATED_FIELDS,
+} from '../src/lib/translation/pretranslated-story.ts';
+import type { PreTranslatedNode } from '../src/lib/translation/pretranslated-parser.ts';
+
+const checkOnly = process.argv.includes('--check');
+
+// Same YAML style as the translate script
+const DUMP_OPTIONS: yaml.DumpOptions = {
+  lineWidth: -1,
+  noRefs: true,
+  quotingType: '"',
+  forceQuotes: false,
+};
+
+/**
+ * Nodes without source positions (segmented files have none)
+ */
+function withoutPositions(paragraphs: PreTranslatedNode[][]) {
+  return paragraphs.map((nodes) =>
+    nodes.map((node) => {
+      if (node.type === 'text') return node;
+      const { position: _position, ...rest } = node;
+      return rest;
+    })
+  );
+}
+
+async function main() {
+  const files = await glob('src/lib/data/stories/*/story.*-*.yaml');
+  let converted = 0;
+  let failed = 0;
+
+  for (const file of files.sort()) {
+    const story = yaml.load(await readFile(file, 'utf-8')) as Record<string, unknown>;
+    if (isSegmented(story)) continue;
+
+    const { story: segmented, errors } = toSegmentedStory(story);
+    if (errors.length > 0) {
+      console.log(`❌ ${file} - marker syntax errors, not converted`);
+      for (const error of errors) console.log(`   ${error}`);
+      failed++;
+      continue;
+    }
+
+    // Read the written form back and compare with the inline file
+    const output = yaml.dump(segmented, DUMP_OPTIONS);
+    const before = readPreTranslatedFields(story);
+    const after = readPreTranslatedFields(yaml.load(output) as Record<string, unknown>);
+    const lossless =
+      after.errors.length === 0 &&
+      TRANSLATED_FIELDS.every((field) =>
+        isDeepStrictEqual(withoutPositions(before[field]), after[field])
+      );
+    if (!lossless) {
+      console.log(`❌ ${file} - conversion would change the story, not converted`);
+      failed++;
+      continue;
+    }
+
+    if (checkOnly) {
+      console.log(`• ${file} - inline format`);
+    } else {
+      await writeFile(file, output, 'utf-8');
+      console.log(`✅ ${file}`);
+    }
+    converted++;
+  }
+
+  console.log(
+    `\n${checkOnly ? 'To convert' : 'Converted'}: ${converted}, failed: ${failed}, already segmented: ${files.length - converted - failed}`
+  );
+  if (failed > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+/**
+ * Story translation precomputation
+ *
+ * Runs translateStory for every story × country × language (English and the
+ * country's languages, as in share routes) with and without contextualization,
+ * and writes each output as compact JSON to static/translations/. The site
+ * fetches these at runtime (src/lib/translation/precomputed.ts), so the
+ * pipeline and its YAML data stay out of the production bundle.
+ *
+ * Fails if any translation has error diagnostics (e.g., a {{key}} story.yaml
+ * doesn't define, or an alias to a missing marker) - these would be shipped as
+ * broken text. Warnings are counted; `?debug=1` on a story page lists them.
+ *
+ * Usage:
+ *   npm run precompute    # Also run by npm run build
+ */
+
+import { mkdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { translateStory } from '../src/lib/translation/pipeline.ts';
+import type { TranslationDiagnostic } from '../src/lib/translation/pipeline.ts';
+import { getPrecomputedPath } from '../src/lib/translation/precomputed.ts';
+import { getAllShareRoutes } from '../src/lib/utils/share-routes.ts';
+
+const OUTPUT_DIR = 'static';
+
+async function main() {
+  await rm(path.join(OUTPUT_DIR, 'translations'), { recursive: true, force: true });
+
+  let written = 0;
+  let bytes = 0;
+  let warnings = 0;
+  const errors: { file: string; diagnostic: TranslationDiagnostic }[] = [];
+  for (const route of getAllShareRoutes()) {
+    for (const contextualizationEnabled of [true, false]) {
+      const input = {
+        storySlug: route.slug,
+        country: route.country.toUpperCase(),
+        language: route.language,
+        contextualizationEnabled,
+      };
+      const translated = translateStory(input);
+      const output = JSON.stringify(translated);
+      const file = path.join(OUTPUT_DIR, getPrecomputedPath(input));
+
+      for (const diagnostic of translated.diagnostics) {
+        if (diagnostic.severity === 'error') errors.push({ file, diagnostic });
+        else warnings++;
+      }
+
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, output, 'utf-8');
+      written++;
+      bytes += output.length;
+    }
+  }
+
+  console.log(
+    `✅ Precomputed ${written} translations (${Math.round(bytes / 1024)} KB) in ${OUTPUT_DIR}/translations/`
+  );
+  console.log(`   ${warnings} warnings (open a story with ?debug=1 to see them)`);
+
+  if (errors.length > 0) {
+    console.error(`\n❌ ${errors.length} translation errors:`);
+    for (const { file, diagnostic } of errors) {
+      const fallback =
+        diagnostic.fallback !== undefined ? ` (shown as '${diagnostic.fallback}')` : '';
+      console.error(`   ${file}: ${diagnostic.key ?? 'story'} - ${diagnostic.reason}${fallback}`);
+    }
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+/**
+ * Stale pre-translated story report
+ *
+ * Lists pre-translated stories (story.{lang}-{country}.yaml) whose source
+ * story or context data changed since they were translated, by comparing the
+ * `built-from` hashes the translate script records with the current ones.
+ * Stale files are regenerated with `npm run translate -- --story=... --force`.
+ * Files translated before hashes were recorded can't be compared; they are
+ * counted separately, and regenerating them records their hashes.
+ *
+ * Usage:
+ *   npm run report:stale                      # Report all stories
+ *   npm run report:stale -- --story=mahsa-arrest
+ *   npm run report:stale -- --strict          # Exit with an error if any are stale
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { glob } from 'glob';
+import yaml from 'js-yaml';
+import { readPreTranslatedFields } from '../src/lib/translation/pretranslated-story.ts';
+import {
+  checkStaleness,
+  computeBuiltFrom,
+  describeStaleness,
+} from '../src/lib/translation/staleness.ts';
+import type { ContextSources } from '../src/lib/translation/staleness.ts';
+
+const args = process.argv.slice(2);
+const targetStory = args.find((arg) => arg.startsWith('--story='))?.split('=')[1];
+const strict = args.includes('--strict');
+
+const CONTEXTS_DIR = 'src/lib/data/contexts';
+
+async function loadYaml<T = Record<string, unknown>>(file: string): Promise<T> {
+  return yaml.load(await readFile(file, 'utf-8')) as T;
+}
+
+async function loadContextSources(): Promise<ContextSources> {
+  return {
+    countries: (await loadYaml<Pick<ContextSources, 'countries'>>(`${CONTEXTS_DIR}/countries.yaml`))
+      .countries,
+    names: await loadYaml(`${CONTEXTS_DIR}/names.yaml`),
+    places: await loadYaml(`${CONTEXTS_DIR}/places.yaml`),
+    comparableEvents: await loadYaml(`${CONTEXTS_DIR}/comparable-events.yaml`),
+    comparisonPhrases: await loadYaml(`${CONTEXTS_DIR}/comparison-phrases.yaml`),
+    sourceContexts: (
+      await loadYaml<{ 'source-contexts': ContextSources['sourceContexts'] }>(
+        `${CONTEXTS_DIR}/source-contexts.yaml`
+      )
+    )['source-contexts'],
+  };
+}
+
+async function main() {
+  const sources = await loadContextSources();
+  const files = await glob(`src/lib/data/stories/${targetStory ?? '*'}/story.*-*.yaml`);
+  const stories: Record<string, Record<string, unknown>> = {};
+  let stale = 0;
+  let unrecorded = 0;
+
+  for (const file of files.sort()) {
+    const storyDir = path.dirname(file);
+    const storyId = path.basename(storyDir);
+    const locale = path.basename(file).match(/^story\.([a-z]{2}-[a-z]{2})\.yaml$/)?.[1];
+    if (!locale) continue;
+
+    stories[storyId] ??= await loadYaml(path.join(storyDir, 'story.yaml'));
+    const country = locale.split('-')[1].toUpperCase();
+    const { builtFrom } = readPreTranslatedFields(await loadYaml(file));
+    const staleness = checkStaleness(
+      builtFrom,
+      computeBuiltFrom(stories[storyId], country, sources)
+    );
+
+    if (staleness.stale) {
+      console.log(`⚠️  ${storyId} ${locale} - ${describeStaleness(staleness)}`);
+      stale++;
+    } else if (staleness.unrecorded) {
+      unrecorded++;
+    }
+  }
+
+  console.log(`\nStale: ${stale} of ${files.length} pre-translated stories`);
+  if (unrecorded > 0) {
+    console.log(`Unrecorded: ${unrecorded} without built-from hashes (not checked)`);
+  }
+  if (strict && stale > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -1,7 +1,7 @@
 /**
  * Story translation script with contextualization - V2 Marker System
  *
- * This script translates Iranian stories into multiple languages with proper
+ * This script translates stories (from Iran and other source contexts) into multiple languages with proper
  * grammatical handling. It substitutes markers with country-specific context,
  * then translates everything (including both original and local values) so that
  * grammatical cases work correctly in languages like Czech, Polish, Finnish, etc.
@@ -35,18 +35,22 @@ import { existsSync } from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 
-// Import V2 type detection functions
+// Marker resolution is shared with the runtime pipeline
+import { getMarkerType, isAliasMarker } from '../src/lib/types/index.ts';
 import {
-  getMarkerType,
-  isPersonMarker,
-  isPlaceMarker,
-  isNumberMarker,
-  isCasualtiesMarker,
-  isAliasMarker,
-} from '../src/lib/types/index.ts';
-
-// Import schema-driven helpers
-import { getPlaceFacilityTypes, getNestedValue } from '../src/lib/translation/schema-helpers.ts';
+  getOriginalMarkerValue,
+  hasMarkerForm,
+  renderMarkerForm,
+} from '../src/lib/translation/markers/index.ts';
+import { translateMarkersV2 } from '../src/lib/translation/core.ts';
+import {
+  parsePreTranslated,
+  formatMarker,
+  formatComparison,
+} from '../src/lib/translation/pretranslated-parser.ts';
+import { toSegmentedStory } from '../src/lib/translation/pretranslated-story.ts';
+import { computeBuiltFrom } from '../src/lib/translation/staleness.ts';
+import { getSourceContext, getExchangeRate } from '../src/lib/translation/source-context.ts';
 
 // Parse CLI arguments
 const args = process.argv.slice(2);
@@ -108,470 +112,112 @@ async function loadComparableEvents() {
 }
 
 /**
- * Get original Iranian value for a V2 marker
+ * Load comparison phrases (contextualization happens in English before translation)
  */
-function getOriginalValue(marker) {
-  if (isPersonMarker(marker)) {
-    return marker.person;
-  }
-  if (isPlaceMarker(marker)) {
-    return marker.place;
-  }
-  if (isNumberMarker(marker)) {
-    return marker.number.toString();
-  }
-  if (isCasualtiesMarker(marker)) {
-    return marker.casualties.toString();
-  }
-  if ('date' in marker) {
-    return marker.date;
-  }
-  if ('time' in marker) {
-    return marker.time;
-  }
-  if ('currency' in marker) {
-    return `${marker.currency.toLocaleString()} Rial`;
-  }
-  if ('occupation' in marker) {
-    return marker.occupation || '[occupation]';
-  }
-  if ('text' in marker) {
-    return marker.text;
-  }
-  return '[original]';
+async function loadComparisonPhrases() {
+  const content = await readFile('src/lib/data/contexts/comparison-phrases.yaml', 'utf-8');
+  return yaml.load(content);
 }
 
 /**
- * Substitute markers in text with contextualized values wrapped in special markers
+ * Load source contexts (the countries stories come from)
  */
-function substituteMarkers(text, markers, context, resolvedMarkers, storyId) {
-  let result = text;
-  const { countryCode, names, places, population, currencySymbol, rialToLocal, comparableEvents } =
-    context;
-
-  // Seeded random for deterministic selection
-  function seededRandom(seed) {
-    let hash = 0;
-    for (let i = 0; i < seed.length; i++) {
-      const char = seed.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash % 1000) / 1000;
-  }
+async function loadSourceContexts() {
+  const content = await readFile('src/lib/data/contexts/source-contexts.yaml', 'utf-8');
+  return yaml.load(content)['source-contexts'];
+}
 
-  function selectFromArray(items, seed) {
-    if (!items || items.length === 0) return '[not found]';
-    const index = Math.floor(seededRandom(seed) * items.length);
-    return items[index];
-  }
+/**
+ * Substitute markers in text with contextualized values wrapped in special markers
+ * @param translations - Resolved markers from translateMarkersV2
+ * @param source - Source context of the story (for original values)
+ */
+function substituteMarkers(text, markers, translations, source) {
+  const { paragraphs } = parsePreTranslated(text);
 
-  // V2 regex: matches {{key}} or {{key:suffix}}
-  const markerRegex = /\{\{([\w-]+)(?::([\w-]+))?\}\}/g;
-  let match;
-
-  // Store matches to process them in order
-  const matches = [];
-  while ((match = markerRegex.exec(text)) !== null) {
-    matches.push({
-      fullMatch: match[0],
-      key: match[1],
-      suffix: match[2],
-      index: match.index,
-    });
-  }
+  const substitute = (node) => {
+    if (node.type === 'text') return node.text;
 
-  // Process matches in reverse order to preserve indices
-  for (let i = matches.length - 1; i >= 0; i--) {
-    const { fullMatch, key, suffix, index } = matches[i];
+    const { key, suffix } = node;
+    const placeholder = `{{${key}${suffix ? ':' + suffix : ''}}}`;
 
     // Handle special cases: source and image references
     if (key === 'source' || key === 'image') {
       // Keep these as-is, they'll be handled by the translator
-      continue;
+      return placeholder;
     }
 
     const marker = markers[key];
-    if (!marker) {
+    const translation = translations[key];
+    if (!marker || !translation) {
       console.warn(`Warning: Marker not found: ${key}`);
-      continue;
+      return placeholder;
     }
 
-    const seed = `${storyId}-${key}-${countryCode}`;
-    let value = fullMatch; // Default to keeping marker
-    let originalValue = getOriginalValue(marker);
-    let markerType = getMarkerType(marker);
-    let effectiveKey = key; // Key to use in marker output
-
-    // Handle suffixes FIRST before general marker processing
-    if (suffix === 'age' && isPersonMarker(marker) && marker.age) {
+    if (suffix === 'age' && 'age' in marker && marker.age) {
       // {{person:age}} - just output the age number, no marker needed
-      value = marker.age.toString();
-      result = result.substring(0, index) + value + result.substring(index + fullMatch.length);
-      continue;
+      return marker.age.toString();
     }
 
-    if (suffix === 'comparable' && isCasualtiesMarker(marker)) {
-      // {{killed:comparable}} - output comparison text
-      // We need to compute the scaled casualties and find a comparison
-      const iranPop = 85000000;
-      let targetPop = population;
-
-      if (marker.scope === 'city' && marker.scopeCity) {
-        const cityMarker = markers[marker.scopeCity];
-        if (cityMarker && 'population' in cityMarker) {
-          targetPop = cityMarker.population;
-          if (resolvedMarkers.has(marker.scopeCity)) {
-            const translatedCityName = resolvedMarkers.get(marker.scopeCity);
-            const translatedCity = places.cities?.find((c) => c.name === translatedCityName);
-            if (translatedCity?.population) {
-              targetPop = translatedCity.population;
-            }
-          }
-        }
-      }
-
-      const scaledValue = Math.round(marker.casualties * (targetPop / iranPop));
-
-      // Find comparable event if specified
-      let comparisonText = '';
-      let comparisonExplanation = '';
-      if (marker.comparable && comparableEvents) {
-        const countryEvents = comparableEvents;
-        const category = marker.comparable === 'any' ? null : marker.comparable;
-
-        // Find closest event
-        let candidates = countryEvents;
-        if (category) {
-          const filtered = countryEvents.filter((e) => e.category === category);
-          if (filtered.length > 0) candidates = filtered;
-        }
-
-        if (candidates.length > 0) {
-          const closestEvent = candidates.reduce((best, current) => {
-            const bestDiff = Math.abs(best.casualties - scaledValue);
-            const currentDiff = Math.abs(current.casualties - scaledValue);
-            return currentDiff < bestDiff ? current : best;
-          });
-
-          const exactRatio = scaledValue / closestEvent.casualties;
-          const eventName = closestEvent.name.trim();
-
-          // Within 15% margin (0.85-1.15x) - say "approximately"
-          if (exactRatio >= 0.85 && exactRatio <= 1.15) {
-            comparisonText = `(approximately ${closestEvent.fullName || eventName})`;
-          }
-          // Fractional comparisons (less than the event)
-          else if (exactRatio < 0.85) {
-            let fractionPhrase;
-            if (exactRatio <= 0.35) {
-              fractionPhrase = 'a third of';
-            } else if (exactRatio <= 0.55) {
-              fractionPhrase = 'half of';
-            } else {
-              fractionPhrase = 'two-thirds of';
-            }
-            comparisonText = `(${fractionPhrase} ${closestEvent.fullName || eventName})`;
-          }
-          // Multiple times more (greater than the event)
-          else {
-            const multiplier = Math.round(exactRatio);
-            let times;
-            if (multiplier === 2) {
-              times = 'twice';
-            } else if (multiplier === 3) {
-              times = 'three times';
-            } else {
-              times = `${multiplier} times`;
-            }
-            comparisonText = `(${times} the ${eventName})`;
-          }
-
-          // Generate comparison explanation
-          const ratioText =
-            exactRatio >= 1
-              ? `${exactRatio.toFixed(2)}x more`
-              : `${(exactRatio * 100).toFixed(0)}% of`;
-          comparisonExplanation = `Comparison: ${scaledValue.toLocaleString()} casualties vs. ${eventName} (${closestEvent.casualties.toLocaleString()} casualties in ${closestEvent.year}) = ${ratioText}`;
-        }
-      }
-
-      // Output comparison text with explanation embedded
+    if (suffix === 'comparable' && 'casualties' in marker) {
+      // {{killed:comparable}} - output comparison text with explanation embedded
       // Format: [[COMPARISON:original|translated|explanation]]
-      value = comparisonText || `(comparison unavailable)`;
-      const comparisonMarked = comparisonExplanation
-        ? `[[COMPARISON:${comparisonText}|${comparisonText}|${comparisonExplanation}]]`
+      // Explanations are serialized (JSON) and formatted for the reader at render time
+      const comparisonText = translation.comparison || '(comparison unavailable)';
+      return translation.comparisonExplanation
+        ? formatComparison({
+            original: comparisonText,
+            translated: comparisonText,
+            explanation: translation.comparisonExplanation,
+          })
         : comparisonText;
-      result =
-        result.substring(0, index) + comparisonMarked + result.substring(index + fullMatch.length);
-      continue;
-    }
-
-    if (suffix === 'original' || suffix === 'translated') {
-      // These suffixes control display mode, not substitution
-      // Just proceed with normal substitution but note the suffix
     }
 
-    // Handle aliases first
+    // Aliases use their target's type, original value and key
+    let effectiveKey = key;
     if (isAliasMarker(marker)) {
-      const targetKey = marker.sameAs;
-      const targetMarker = markers[targetKey];
-
-      if (!targetMarker) {
-        console.warn(`Warning: Alias target marker not found: ${targetKey}`);
-        continue;
-      }
-
-      // Use target marker's type and original value
-      markerType = getMarkerType(targetMarker);
-      originalValue = getOriginalValue(targetMarker);
-      effectiveKey = targetKey; // Use target key in marker output
-
-      if (resolvedMarkers.has(targetKey)) {
-        value = resolvedMarkers.get(targetKey);
-      } else {
-        // Target not resolved yet - recursively resolve it
-        const targetSeed = `${storyId}-${targetKey}-${countryCode}`;
-
-        if (isPersonMarker(targetMarker)) {
-          const nameList =
-            targetMarker.gender === 'm'
-              ? names.male
-              : targetMarker.gender === 'f'
-                ? names.female
-                : names.neutral;
-          value = selectFromArray(nameList, targetSeed);
-        } else if (isPlaceMarker(targetMarker)) {
-          // Simplified place resolution for aliases
-          const size = targetMarker['city-large']
-            ? 'large'
-            : targetMarker['city-medium']
-              ? 'medium'
-              : targetMarker['city-small']
-                ? 'small'
-                : null;
-          if (size && places.cities) {
-            const cities = places.cities.filter(
-              (c) => c.size === size && (!targetMarker.capital || c.capital)
-            );
-            if (cities.length > 0) {
-              const selectedCity = selectFromArray(cities, targetSeed);
-              value = selectedCity.name;
-            }
-          }
-        }
-
-        // Store the resolved target
-        resolvedMarkers.set(targetKey, value);
-      }
-    }
-    // Person markers
-    else if (isPersonMarker(marker)) {
-      const nameList =
-        marker.gender === 'm' ? names.male : marker.gender === 'f' ? names.female : names.neutral;
-      value = selectFromArray(nameList, seed);
-    }
-    // Place markers with V2 hierarchical support
-    else if (isPlaceMarker(marker)) {
-      // Resolve parent on-demand if needed
-      if (marker.within && !resolvedMarkers.has(marker.within)) {
-        const parentMarker = markers[marker.within];
-        if (parentMarker && isPlaceMarker(parentMarker)) {
-          // Recursively resolve parent (city markers don't have parents themselves)
-          const parentSeed = `${storyId}-${marker.within}-${countryCode}`;
-          const parentSize = parentMarker['city-large']
-            ? 'large'
-            : parentMarker['city-medium']
-              ? 'medium'
-              : parentMarker['city-small']
-                ? 'small'
-                : null;
-
-          if (parentSize && places.cities) {
-            const cities = places.cities.filter(
-              (c) => c.size === parentSize && (!parentMarker.capital || c.capital)
-            );
-            if (cities.length > 0) {
-              const selectedCity = selectFromArray(cities, parentSeed);
-              resolvedMarkers.set(marker.within, selectedCity.name);
-            }
-          }
-        }
-      }
-
-      // Check if this place has a parent
-      if (marker.within && resolvedMarkers.has(marker.within)) {
-        const parentCityName = resolvedMarkers.get(marker.within);
-
-        // Find the city in places data
-        const cityData = places.cities?.find((c) => c.name === parentCityName);
-        if (cityData) {
-          // Schema-driven facility matching
-          const facilityTypes = getPlaceFacilityTypes();
-          for (const { property, dataPath } of facilityTypes) {
-            const markerHasType = marker[property] === true;
-            const cityHasData = getNestedValue(cityData, dataPath);
-
-            if (markerHasType && cityHasData && Array.isArray(cityHasData)) {
-              value = selectFromArray(cityHasData, seed);
-              break;
-            }
-          }
-        }
-      }
-
-      // If no parent or not resolved, use direct city selection
-      if (value === fullMatch) {
-        const size = marker['city-large']
-          ? 'large'
-          : marker['city-medium']
-            ? 'medium'
-            : marker['city-small']
-              ? 'small'
-              : null;
-
-        if (size && places.cities) {
-          // Filter by size AND capital requirement (if specified)
-          const cities = places.cities.filter(
-            (c) => c.size === size && (!marker.capital || c.capital)
-          );
-          if (cities.length > 0) {
-            const selectedCity = selectFromArray(cities, seed);
-            value = selectedCity.name;
-          }
-        } else {
-          // Fallback to generic lists
-          if (marker['landmark-protest'] && places.generic?.landmarks?.protest) {
-            value = selectFromArray(places.generic.landmarks.protest, seed);
-          } else if (marker.university && places.generic?.universities) {
-            value = selectFromArray(places.generic.universities, seed);
-          } else if (marker['government-facility'] && places.generic?.['government-facilities']) {
-            value = selectFromArray(places.generic['government-facilities'], seed);
-          }
-        }
+      if (!markers[marker.sameAs]) {
+        console.warn(`Warning: Alias target marker not found: ${marker.sameAs}`);
+        return placeholder;
       }
+      effectiveKey = marker.sameAs;
     }
-    // Number markers
-    else if (isNumberMarker(marker)) {
-      let numValue = marker.number;
-      if (marker.scaled) {
-        const iranPopulation = 85000000;
-        const ratio = population / iranPopulation;
-        const scaleFactor = marker.scaleFactor || 1.0;
-        numValue = Math.round(numValue * ratio * scaleFactor);
-      }
-      if (marker.variance) {
-        const seedValue = seededRandom(seed);
-        const adjustment = Math.floor((seedValue - 0.5) * 2 * marker.variance);
-        numValue += adjustment;
-      }
-      value = numValue.toString();
-    }
-    // Casualties markers
-    else if (isCasualtiesMarker(marker)) {
-      const iranPop = 85000000;
-      let targetPop = population;
-
-      // Handle city-scoped casualties
-      if (marker.scope === 'city' && marker.scopeCity) {
-        const cityMarker = markers[marker.scopeCity];
-        if (cityMarker && 'population' in cityMarker) {
-          targetPop = cityMarker.population;
-
-          // If the city has been resolved, use translated city's population
-          if (resolvedMarkers.has(marker.scopeCity)) {
-            const translatedCityName = resolvedMarkers.get(marker.scopeCity);
-            const translatedCity = places.cities?.find((c) => c.name === translatedCityName);
-            if (translatedCity?.population) {
-              targetPop = translatedCity.population;
-            }
-          }
-        }
-      }
+    const effectiveMarker = markers[effectiveKey];
 
-      const scaledValue = Math.round(marker.casualties * (targetPop / iranPop));
-      value = scaledValue.toString();
-    }
-    // Currency markers
-    else if ('currency' in marker) {
-      const converted = Math.round(marker.currency * rialToLocal);
-      value = `${currencySymbol}${converted.toLocaleString('en-US')}`;
-    }
-    // Date markers
-    else if ('date' in marker) {
-      value = marker.date;
-    }
-    // Time markers
-    else if ('time' in marker) {
-      value = marker.time;
-    }
-    // Occupation markers
-    else if ('occupation' in marker) {
-      value = marker.occupation;
-    }
-    // Text markers (e.g., chants, events)
-    else if ('text' in marker) {
-      value = marker.text;
-    }
-
-    // Store resolved value for aliases and the original key
-    resolvedMarkers.set(key, value);
-    if (effectiveKey !== key) {
-      resolvedMarkers.set(effectiveKey, value); // Also store target key for alias resolution
-    }
-
-    // Build explanation if applicable
-    let explanation = '';
+    // Wrap value in special marker that survives translation
+    // Format: [[MARKER:type:key:original|value|explanation]]
+    const wrapped = formatMarker({
+      markerType: getMarkerType(effectiveMarker),
+      key: effectiveKey,
+      original: getOriginalMarkerValue(effectiveMarker, source),
+      value: translation.value,
+      explanation: translation.explanation,
+    });
 
-    // For scaled numbers, add scaling explanation
-    if (isNumberMarker(marker) && marker.scaled) {
-      const iranPop = 85000000;
-      const _ratio = population / iranPop;
-      const scaleFactor = marker.scaleFactor || 1.0;
-      explanation = `Scaled from Iran (${marker.number.toLocaleString()}) to ${countryCode} by population ratio: ${marker.number.toLocaleString()} × (${(population / 1000000).toFixed(1)}M / ${(iranPop / 1000000).toFixed(1)}M)${scaleFactor !== 1.0 ? ` × ${scaleFactor}` : ''} = ${value}`;
+    if (hasMarkerForm(effectiveMarker, suffix)) {
+      // {{person:their}} - the English pronoun, translated with its sentence
+      // {{person:possessive}} - the name's marker, followed by its English ending ("'s")
+      const form = renderMarkerForm(effectiveMarker, suffix, translation.value, 'en');
+      return form.startsWith(translation.value)
+        ? wrapped + form.slice(translation.value.length)
+        : form;
     }
 
-    // For casualties, add scaling explanation
-    if (isCasualtiesMarker(marker)) {
-      const iranPop = 85000000;
-      let targetPop = population;
-      let scopeType = 'country';
-      let scopeName = countryCode;
-
-      if (marker.scope === 'city' && marker.scopeCity) {
-        const cityMarker = markers[marker.scopeCity];
-        if (cityMarker && 'population' in cityMarker) {
-          targetPop = cityMarker.population;
-          scopeType = 'city';
-          if (resolvedMarkers.has(marker.scopeCity)) {
-            const translatedCityName = resolvedMarkers.get(marker.scopeCity);
-            const translatedCity = places.cities?.find((c) => c.name === translatedCityName);
-            if (translatedCity?.population) {
-              targetPop = translatedCity.population;
-              scopeName = translatedCityName;
-            }
-          }
-        }
-      }
+    return wrapped;
+  };
 
-      explanation = `Scaled from Iran (${marker.casualties.toLocaleString()}) to ${scopeName} by ${scopeType} population: ${marker.casualties.toLocaleString()} × (${(targetPop / 1000000).toFixed(1)}M / ${(iranPop / 1000000).toFixed(1)}M) = ${value}`;
-    }
-
-    // Wrap value in special marker that survives translation
-    // Format: [[MARKER:type:key:original|value|explanation]]
-    const markedValue = explanation
-      ? `[[MARKER:${markerType}:${effectiveKey}:${originalValue}|${value}|${explanation}]]`
-      : `[[MARKER:${markerType}:${effectiveKey}:${originalValue}|${value}]]`;
-    result = result.substring(0, index) + markedValue + result.substring(index + fullMatch.length);
-  }
-
-  return result;
+  return paragraphs.map((nodes) => nodes.map(substitute).join('')).join('\n');
 }
 
 /**
  * Translate a contextualized story to target language
  */
-async function translateContextualizedStory(contextualizedContent, targetLangCode, targetLangName) {
+async function translateContextualizedStory(
+  contextualizedContent,
+  targetLangCode,
+  targetLangName,
+  sourceName
+) {
   try {
     const response = await anthropic.messages.create({
       model: 'claude-sonnet-4-5-20250929',
@@ -580,7 +226,7 @@ async function translateContextualizedStory(contextualizedContent, targetLangCod
       messages: [
         {
           role: 'user',
-          content: `Translate this YAML story about Iran's uprising from English to ${targetLangName}.
+          content: `Translate this YAML story about repression in ${sourceName} from English to ${targetLangName}.
 
 CRITICAL RULES:
 1. Translate ALL text content to ${targetLangName}
@@ -600,7 +246,7 @@ SPECIAL MARKERS IN TEXT:
 The text contains special markers in these formats:
 
 1. [[MARKER:type:key:original|value]] - Basic marker
-2. [[MARKER:type:key:original|value|explanation]] - With explanation (math for tooltips)
+2. [[MARKER:type:key:original|value|explanation]] - With explanation (JSON data for tooltips)
 3. [[COMPARISON:original|translated|explanation]] - Casualty comparisons
 
 For example: [[MARKER:person:person1:Mahsa|Ema]]
@@ -613,7 +259,7 @@ YOU MUST TRANSLATE BOTH PARTS to ${targetLangName}:
 
 IMPORTANT: Numbers in markers are already localized - DO NOT translate them:
   [[MARKER:number:cities:400|49]] - keep both numbers as-is
-  [[MARKER:casualties:killed:36500|4513|Scaled from Iran...]] - keep numbers as is, but translate the explanation
+  [[MARKER:casualties:killed:36500|4513|{"kind":"population-scaling",...}]] - keep numbers as is, copy the explanation exactly
 
 Examples:
   English input: "in [[MARKER:place:hometown:Tehran|Prague]]"
@@ -626,22 +272,24 @@ Examples:
   - "Mahsy" = Mahsa in Czech genitive case (possessive)
   - "Emy" = Ema in Czech genitive case (possessive)
 
-  English input: "more than [[MARKER:casualties:killed:36500|4513|Scaled from Iran (36500) to CZ...]] people"
-  Czech output: "více než [[MARKER:casualties:killed:36500|4513|Přepočítáno z Íránu (36 500) na Českou republiku...]] lidí"
-  - Keep numbers unchanged, but translate the explanation.
+  English input: "more than [[MARKER:casualties:killed:36500|4513|{"kind":"population-scaling",...}]] people"
+  Czech output: "více než [[MARKER:casualties:killed:36500|4513|{"kind":"population-scaling",...}]] lidí"
+  - Keep numbers unchanged and copy the explanation exactly.
 
-  English input: "[[COMPARISON:(13 times the Lidice massacre)|(13 times the Lidice massacre)|Comparison: 4513 casualties...]]"
-  Czech output: "[[COMPARISON:(13 times the Lidice massacre)|(13krát více než masakr v Lidicích)|Srovnání: 4 513 obětí...]]"
+  English input: "[[COMPARISON:(13 times the Lidice massacre)|(13 times the Lidice massacre)|{"kind":"comparable-event",...}]]"
+  Czech output: "[[COMPARISON:(13 times the Lidice massacre)|(13krát více než masakr v Lidicích)|{"kind":"comparable-event",...}]]"
   - Translate the comparison text (second part)
-  - Translate the explanation (third part)
+  - Copy the explanation (third part) exactly - it is data, the website formats it for each language
 
 The marker format must remain:
 - [[MARKER:type:key:TRANSLATED_ORIGINAL|TRANSLATED_LOCAL]] for basic markers
 - [[MARKER:type:key:TRANSLATED_ORIGINAL|TRANSLATED_LOCAL|explanation]] for markers with math
 - [[COMPARISON:original|TRANSLATED_TEXT|explanation]] for comparisons
+- A backslash before | ] : inside a marker escapes it - keep the backslash
 
 Translate names and places with proper grammar/case!
 Keep numbers unchanged!
+Never translate or change explanations (JSON after the last |)!
 
 YAML to translate:
 ${contextualizedContent}
@@ -671,6 +319,8 @@ async function main() {
   const allNames = await loadNames();
   const allPlaces = await loadPlaces();
   const allComparableEvents = await loadComparableEvents();
+  const allComparisonPhrases = await loadComparisonPhrases();
+  const allSourceContexts = await loadSourceContexts();
 
   // Find stories
   const storyPattern = targetStory
@@ -697,6 +347,7 @@ async function main() {
 
     const originalContent = await readFile(storyFile, 'utf-8');
     const storyData = yaml.load(originalContent);
+    const source = getSourceContext(allSourceContexts, storyData['source-country']);
 
     // Filter countries
     let countriesToProcess = targetCountry
@@ -738,41 +389,32 @@ async function main() {
       const places = allPlaces[countryCode] || allPlaces['US'];
       const comparableEvents = allComparableEvents[countryCode] || allComparableEvents['US'] || [];
 
-      const context = {
-        countryCode,
-        names,
-        places,
-        population: country.population,
-        currencySymbol: country['currency-symbol'],
-        rialToLocal: country['rial-to-local'],
-        comparableEvents,
-      };
+      // Resolve markers with this country's context (English, translated afterwards)
+      const translations = translateMarkersV2(
+        storyData.markers,
+        {
+          country: countryCode,
+          names,
+          places,
+          population: country.population,
+          source,
+          currencySymbol: country['currency-symbol'],
+          currency: country.currency,
+          exchangeRate: getExchangeRate(country['units-per-usd'], source),
+          comparableEvents,
+          comparisonPhrases: allComparisonPhrases['en'],
+          languageCode: 'en',
+          storyDate: storyData.date,
+        },
+        storyId
+      );
 
       // Substitute markers with this country's context
-      const resolvedMarkers = new Map(); // Track resolved values for aliases
       const contextualizedData = {
         ...storyData,
-        title: substituteMarkers(
-          storyData.title,
-          storyData.markers,
-          context,
-          resolvedMarkers,
-          storyId
-        ),
-        summary: substituteMarkers(
-          storyData.summary,
-          storyData.markers,
-          context,
-          resolvedMarkers,
-          storyId
-        ),
-        content: substituteMarkers(
-          storyData.content,
-          storyData.markers,
-          context,
-          resolvedMarkers,
-          storyId
-        ),
+        title: substituteMarkers(storyData.title, storyData.markers, translations, source),
+        summary: substituteMarkers(storyData.summary, storyData.markers, translations, source),
+        content: substituteMarkers(storyData.content, storyData.markers, translations, source),
       };
 
       for (const langCode of languages) {
@@ -811,7 +453,8 @@ async function main() {
         const translated = await translateContextualizedStory(
           contextualizedYaml,
           langCode,
-          langName
+          langName,
+          source.name
         );
 
         if (translated) {
@@ -823,8 +466,7 @@ async function main() {
             cleanedTranslation = cleanedTranslation.replace(/^```\n/, '').replace(/\n```$/, '');
           }
 
-          // Keep [[MARKER:...]] format in the output
-          // The UI will parse pre-translated stories with proper grammar
+          // The model keeps the [[MARKER:...]] format; it is converted to segments below
 
           // Remove the markers, sources, and images sections since metadata is now inline
           let translatedData;
@@ -838,17 +480,42 @@ async function main() {
             continue;
           }
 
-          delete translatedData.markers;
-          delete translatedData.sources;
-          delete translatedData.images;
+          // Save in the segmented format (format: 3) - easier to review than inline markers
+          const { story: segmentedData, errors: syntaxErrors } = toSegmentedStory(translatedData);
+          if (syntaxErrors.length > 0) {
+            console.log(`   ❌ ${langName} (${countryName}) - marker syntax broken by translation`);
+            for (const syntaxError of syntaxErrors) {
+              console.log(`      ${syntaxError}`);
+            }
+            totalFailed++;
+            continue;
+          }
 
-          const finalYaml = yaml.dump(translatedData, {
-            lineWidth: -1,
-            noRefs: true,
-            quotingType: '"', // Use double quotes for better escaping
-            forceQuotes: false, // Only quote when necessary
+          delete segmentedData.markers;
+          delete segmentedData.sources;
+          delete segmentedData.images;
+
+          // Record what the file was built from, so edits to the story or context show it is stale
+          const { format, ...fields } = segmentedData;
+          const builtFrom = computeBuiltFrom(storyData, countryCode, {
+            countries,
+            names: allNames,
+            places: allPlaces,
+            comparableEvents: allComparableEvents,
+            comparisonPhrases: allComparisonPhrases,
+            sourceContexts: allSourceContexts,
           });
 
+          const finalYaml = yaml.dump(
+            { format, 'built-from': builtFrom, ...fields },
+            {
+              lineWidth: -1,
+              noRefs: true,
+              quotingType: '"', // Use double quotes for better escaping
+              forceQuotes: false, // Only quote when necessary
+            }
+          );
+
           await writeFile(outputPath, finalYaml, 'utf-8');
           console.log(`   ✅ ${langName} (${countryName}) - translated`);
           totalGenerated++;
@@ -5,15 +5,48 @@
  * Validates:
  * - places-v2.yaml structure
  * - comparable-events.yaml data quality
- * - Story marker references
+ * - names.yaml pool sizes and community diversity per country
+ * - comparison-phrases.yaml and explanation-phrases.yaml cover every language we ship
+ * - Story marker references, their suffixes ({{key:age}}, {{person1:their}}) and source countries
+ * - Pre-translated story marker syntax, without unresolved placeholders in marker values
+ * - Pre-translated story marker parity: the same markers, sources and images as
+ *   story.yaml, with numeric values matching the file's country
+ * - Pre-translated story staleness: files out of date with story.yaml or the
+ *   context data, and files without `built-from` hashes that can't be checked
  */
 
 import { readFile, readdir } from 'fs/promises';
 import { join } from 'path';
 import { load } from 'js-yaml';
-import type { PlacesDataV2, ComparableEvent } from '../src/lib/translation/core';
-import type { Story } from '../src/lib/types';
-import { isPlaceMarker } from '../src/lib/types/markers-v2';
+import type {
+  PlacesDataV2,
+  ComparableEvent,
+  ComparisonPhrases,
+} from '../src/lib/translation/core';
+import { translateMarkersV2 } from '../src/lib/translation/core';
+import type { Story, SourceContext, Country, CountryNames } from '../src/lib/types';
+import { isAliasMarker } from '../src/lib/types';
+import { getMarkerSuffixes, hasMarkerForm } from '../src/lib/translation/markers';
+import { planMarkerResolution } from '../src/lib/translation/resolver';
+import {
+  readPreTranslatedFields,
+  TRANSLATED_FIELDS,
+} from '../src/lib/translation/pretranslated-story';
+import { checkMarkerParity } from '../src/lib/translation/marker-parity';
+import type { ParityIssue } from '../src/lib/translation/marker-parity';
+import {
+  checkStaleness,
+  computeBuiltFrom,
+  describeStaleness,
+} from '../src/lib/translation/staleness';
+import { getNamePoolStats } from '../src/lib/translation/name-pools';
+import {
+  DEFAULT_SOURCE_COUNTRY,
+  getExchangeRate,
+  getSourceContext,
+  resolveSourceCity,
+  resolveSourceCoordinates,
+} from '../src/lib/translation/source-context';
 
 interface ValidationError {
   file: string;
@@ -59,6 +92,14 @@ async function validatePlaces() {
           addError('places-v2.yaml', `${countryCode}/${city.name}: Invalid 'population'`, 'warning');
         }
 
+        if (!city.coordinates) {
+          addError(
+            'places-v2.yaml',
+            `${countryCode}/${city.name}: Missing 'coordinates' - never picked by distance-preserving relocation`,
+            'warning'
+          );
+        }
+
         // Individual city validation removed - we now validate at country level
         // to ensure at least ONE city has each required facility type
       }
@@ -147,6 +188,126 @@ async function validateComparableEvents() {
   }
 }
 
+/**
+ * Validate a localized phrase catalog against country-languages.yaml
+ * @param file - Catalog in src/lib/data/contexts (keyed by language code)
+ * @param requiredTemplates - Template path -> placeholders it must contain
+ */
+async function validatePhraseCatalog(file: string, requiredTemplates: Array<[string, string[]]>) {
+  try {
+    const contextsDir = join(process.cwd(), 'src/lib/data/contexts');
+    const phrases = load(await readFile(join(contextsDir, file), 'utf8')) as Record<
+      string,
+      unknown
+    >;
+    const countryLanguages = load(
+      await readFile(join(contextsDir, 'country-languages.yaml'), 'utf8')
+    ) as {
+      countries: Record<string, { languages: string[] }>;
+      language_names: Record<string, string>;
+    };
+
+    const languages = new Set([
+      ...Object.values(countryLanguages.countries).flatMap((c) => c.languages),
+      ...Object.keys(countryLanguages.language_names),
+    ]);
+
+    for (const language of languages) {
+      const entry = phrases[language];
+      if (!entry) {
+        addError(file, `${language}: Missing phrases for shipped language`, 'error');
+        continue;
+      }
+
+      for (const [path, placeholders] of requiredTemplates) {
+        const template = path
+          .split('.')
+          .reduce<unknown>(
+            (value, part) => (value as Record<string, unknown> | undefined)?.[part],
+            entry
+          );
+        if (typeof template !== 'string' || template.trim() === '') {
+          addError(file, `${language}: Missing '${path}'`, 'error');
+          continue;
+        }
+        for (const placeholder of placeholders) {
+          if (!new RegExp(`\\{${placeholder}(:[a-z-]+)?\\}`).test(template)) {
+            addError(
+              file,
+              `${language}: '${path}' is missing the {${placeholder}} placeholder`,
+              'error'
+            );
+          }
+        }
+      }
+    }
+
+    console.log(`  ✓ Validated ${languages.size} languages`);
+  } catch (error) {
+    addError(file, `Failed to load: ${error}`, 'error');
+  }
+}
+
+/**
+ * Validate comparison-phrases.yaml
+ */
+async function validateComparisonPhrases() {
+  console.log('💬 Validating comparison-phrases.yaml...');
+
+  await validatePhraseCatalog('comparison-phrases.yaml', [
+    ['approximately', ['event']],
+    ['fraction.third', ['event']],
+    ['fraction.half', ['event']],
+    ['fraction.two-thirds', ['event']],
+    ['multiple.twice', ['event']],
+    ['multiple.thrice', ['event']],
+    ['multiple.times', ['event', 'n']],
+    ['compared.almost-twice', []],
+    ['compared.twice', []],
+    ['compared.times', ['n']],
+    ['casualties.other', ['count']],
+    ['explanation.text', ['scaled', 'event', 'eventCasualties', 'year', 'ratio']],
+    ['explanation.more', ['ratio']],
+    ['explanation.less', ['percent']],
+  ]);
+}
+
+/**
+ * Validate explanation-phrases.yaml
+ */
+async function validateExplanationPhrases() {
+  console.log('🧮 Validating explanation-phrases.yaml...');
+
+  await validatePhraseCatalog('explanation-phrases.yaml', [
+    ['population.country', ['source', 'value', 'scope', 'math']],
+    ['population.city', ['source', 'value', 'scope', 'math']],
+    ['comparison', ['value', 'reference', 'ratio']],
+    [
+      'distance.route',
+      ['source', 'distance', 'scope', 'from', 'to', 'localDistance', 'sourceDistance', 'result'],
+    ],
+    ['distance.span', ['source', 'distance', 'scope', 'localSpan', 'sourceSpan', 'result']],
+    ['travel.driving', ['speed']],
+    ['travel.walking', ['speed']],
+    [
+      'relocation',
+      [
+        'anchor',
+        'place',
+        'source',
+        'scope',
+        'localAnchor',
+        'sourceDistance',
+        'sourceSpan',
+        'sourceShare',
+        'localDistance',
+        'localSpan',
+        'localShare',
+      ],
+    ],
+  ]);
+}
+
 /**
  * Extract marker references from text
  */
@@ -158,6 +319,16 @@ function extractMarkerReferences(text: string): string[] {
   return refs.filter(ref => ref !== 'source' && ref !== 'image');
 }
 
+/**
+ * Extract {{key:suffix}} references from text (not sources and images)
+ */
+function extractSuffixedReferences(text: string): Array<{ key: string; suffix: string }> {
+  const regex = /\{\{([^:}]+):([^}]+)\}\}/g;
+  return Array.from(text.matchAll(regex), (m) => ({ key: m[1], suffix: m[2] })).filter(
+    ({ key }) => key !== 'source' && key !== 'image'
+  );
+}
+
 /**
  * Validate story markers and references
  */
@@ -165,6 +336,12 @@ async function validateStories() {
   console.log('📖 Validating story markers...');
 
   try {
+    const sourceContextsPath = join(process.cwd(), 'src/lib/data/contexts/source-contexts.yaml');
+    const sourceContexts = (
+      load(await readFile(sourceContextsPath, 'utf8')) as { 'source-contexts': SourceContext[] }
+    )['source-contexts'];
+    const sourceCodes = new Set(sourceContexts.map((source) => source.code));
+
     const storiesDir = join(process.cwd(), 'src/lib/data/stories');
     const entries = await readdir(storiesDir, { withFileTypes: true });
     const storyFolders = entries.filter((e) => e.isDirectory());
@@ -202,18 +379,96 @@ async function validateStories() {
         }
       }
 
-      // Check place marker relationships
-      for (const [key, marker] of Object.entries(story.markers)) {
-        if (isPlaceMarker(marker)) {
-          // Check parent city references
-          if (marker.within && !story.markers[marker.within]) {
+      // Check suffixes - unknown ones render as the plain value
+      const suffixedRefs = [story.title, story.summary, story.content].flatMap(
+        extractSuffixedReferences
+      );
+      for (const { key, suffix } of suffixedRefs) {
+        const marker = story.markers[key];
+        if (!marker) continue;
+        // Pronouns of an alias are its person's
+        const target =
+          isAliasMarker(marker) && story.markers[marker.sameAs]
+            ? story.markers[marker.sameAs]
+            : marker;
+        if (getMarkerSuffixes(marker).includes(suffix) || hasMarkerForm(target, suffix)) continue;
+        const accepted = [...new Set([...getMarkerSuffixes(marker), ...getMarkerSuffixes(target)])];
+        addError(
+          `${folder.name}/story.yaml`,
+          `Unknown suffix {{${key}:${suffix}}} (accepted: ${accepted.join(', ')})`,
+          'error'
+        );
+      }
+
+      // Check the story's source context exists
+      const sourceCountry = story['source-country'] ?? DEFAULT_SOURCE_COUNTRY;
+      if (!sourceCodes.has(sourceCountry)) {
+        addError(
+          `${folder.name}/story.yaml`,
+          `Unknown source-country: ${sourceCountry} (not in source-contexts.yaml)`,
+          'error'
+        );
+      } else {
+        // City-scoped casualties need the source city's population
+        const source = getSourceContext(sourceContexts, sourceCountry);
+        for (const [key, marker] of Object.entries(story.markers)) {
+          if (!('casualties' in marker) || marker.scope !== 'city' || !marker.scopeCity) continue;
+          if (!resolveSourceCity(story.markers, marker.scopeCity, source)) {
             addError(
               `${folder.name}/story.yaml`,
-              `Marker '${key}' references non-existent parentCity: ${marker.within}`,
-              'error'
+              `Marker '${key}': no population for source city '${marker.scopeCity}' (add 'population' or a source-contexts.yaml entry) - falls back to country scaling`,
+              'warning'
             );
           }
         }
+
+        // Distance-preserving places and scaled distances need source coordinates
+        for (const [key, marker] of Object.entries(story.markers)) {
+          const references =
+            'place' in marker && marker.distanceFrom
+              ? [key, marker.distanceFrom]
+              : 'distance' in marker && marker.scaled
+                ? [marker.from, marker.to].filter((ref): ref is string => !!ref)
+                : [];
+          for (const ref of references) {
+            if (story.markers[ref] && !resolveSourceCoordinates(story.markers, ref, source)) {
+              addError(
+                `${folder.name}/story.yaml`,
+                `Marker '${key}': no coordinates for source place '${ref}' (add 'coordinates' or a source-contexts.yaml entry) - distance is not preserved`,
+                'warning'
+              );
+            }
+          }
+        }
+      }
+
+      // Check marker relationships (within, sameAs, scopeCity, comparedTo, from)
+      const { errors: resolutionErrors } = planMarkerResolution(story.markers);
+      for (const resolutionError of resolutionErrors) {
+        addError(`${folder.name}/story.yaml`, resolutionError.message, 'error');
+      }
+
+      // Pre-translated values should be text, not {{key}} placeholders left by the translate script
+      const preTranslatedFiles = (await readdir(join(storiesDir, folder.name))).filter((file) =>
+        /^story\.[a-z]{2}-[a-z]{2}\.yaml$/.test(file)
+      );
+      for (const file of preTranslatedFiles) {
+        const preTranslated = readPreTranslatedFields(
+          load(await readFile(join(storiesDir, folder.name, file), 'utf8')) as Record<string, unknown>
+        );
+        for (const error of preTranslated.errors) {
+          addError(`${folder.name}/${file}`, `Marker syntax: ${error}`, 'error');
+        }
+        const nodes = TRANSLATED_FIELDS.flatMap((field) => preTranslated[field].flat());
+        for (const node of nodes) {
+          const placeholder = node.type === 'marker' && node.value.match(/\{\{[^}]+\}\}/);
+          if (!placeholder) continue;
+          addError(
+            `${folder.name}/${file}`,
+            `Marker '${node.key}': value contains placeholder ${placeholder[0]} (resolved at runtime) - re-run npm run translate`,
+            'warning'
+          );
+        }
       }
 
       console.log(`  ✓ Validated ${folder.name}`);
@@ -223,6 +478,170 @@ async function validateStories() {
   }
 }
 
+/**
+ * Load a context data file
+ */
+async function loadContext<T>(file: string): Promise<T> {
+  return load(await readFile(join(process.cwd(), 'src/lib/data/contexts', file), 'utf8')) as T;
+}
+
+/**
+ * Report name pool sizes and diversity per country (names.yaml)
+ */
+async function validateNames() {
+  console.log('👤 Validating names.yaml...');
+
+  try {
+    const countries = (await loadContext<{ countries: Country[] }>('countries.yaml')).countries;
+    const names = await loadContext<Record<string, CountryNames>>('names.yaml');
+
+    for (const country of countries) {
+      const countryNames = names[country.code];
+      if (!countryNames) {
+        addError('names.yaml', `${country.code}: No names - falls back to US names`, 'warning');
+        continue;
+      }
+
+      const stats = getNamePoolStats(countryNames);
+      for (const duplicate of stats.duplicates) {
+        addError('names.yaml', `${country.code}: ${duplicate} is listed twice`, 'warning');
+      }
+
+      const pools = [
+        `${stats.sizes.female} female, ${stats.sizes.male} male, ${stats.sizes.neutral} neutral`,
+        stats.weighted ? 'weighted' : 'even',
+        ...(stats.regions > 0
+          ? [`${stats.regions} regional pool${stats.regions === 1 ? '' : 's'}`]
+          : []),
+        ...(stats.decades > 0 ? [`${stats.decades} decades`] : []),
+      ];
+      const diversity = Object.entries(stats.communities).map(([kind, shares]) => {
+        const communities = Object.entries(shares)
+          .sort(([, a], [, b]) => b - a)
+          .map(([community, share]) => {
+            const percent = Math.round(share * 100);
+            return `${community} ${percent > 0 ? `${percent}%` : '<1%'}`;
+          });
+        return `${kind}: ${communities.length > 0 ? communities.join(', ') : 'no community names'}`;
+      });
+      console.log(`  ${country.code}: ${[...pools, ...diversity].join(' · ')}`);
+    }
+  } catch (error) {
+    addError('names.yaml', `Failed to load: ${error}`, 'error');
+  }
+}
+
+/**
+ * Compare pre-translated stories with their story.yaml
+ * Markers are resolved for each file's country the way the translate script does,
+ * so numeric values can be checked. Files are also checked for staleness against
+ * their `built-from` hashes.
+ */
+async function validateMarkerParity() {
+  console.log('🔁 Validating pre-translated marker parity...');
+
+  try {
+    const countries = (await loadContext<{ countries: Country[] }>('countries.yaml')).countries;
+    const names = await loadContext<Record<string, CountryNames>>('names.yaml');
+    const places = await loadContext<Record<string, PlacesDataV2>>('places.yaml');
+    const comparableEvents = await loadContext<Record<string, ComparableEvent[]>>(
+      'comparable-events.yaml'
+    );
+    const comparisonPhrases = await loadContext<Record<string, ComparisonPhrases>>(
+      'comparison-phrases.yaml'
+    );
+    const sourceContexts = (
+      await loadContext<{ 'source-contexts': SourceContext[] }>('source-contexts.yaml')
+    )['source-contexts'];
+
+    const storiesDir = join(process.cwd(), 'src/lib/data/stories');
+    const entries = await readdir(storiesDir, { withFileTypes: true });
+
+    for (const folder of entries.filter((e) => e.isDirectory())) {
+      const story = load(await readFile(join(storiesDir, folder.name, 'story.yaml'), 'utf8')) as Story;
+      const source = getSourceContext(sourceContexts, story['source-country']);
+      const files = (await readdir(join(storiesDir, folder.name)))
+        .filter((file) => /^story\.[a-z]{2}-[a-z]{2}\.yaml$/.test(file))
+        .sort();
+
+      for (const file of files) {
+        const countryCode = file.slice(-7, -5).toUpperCase();
+        const country = countries.find((c) => c.code === countryCode);
+        if (!country) {
+          addError(`${folder.name}/${file}`, `Unknown country: ${countryCode}`, 'error');
+          continue;
+        }
+
+        // Same data as the translate script (contextualized in English), with
+        // values formatted for the file's language
+        const language = file.slice(6, 8);
+        const translations = translateMarkersV2(
+          story.markers,
+          {
+            country: countryCode,
+            names: names[countryCode] || names['US'],
+            places: places[countryCode] || places['US'],
+            population: country.population,
+            source,
+            currencySymbol: country['currency-symbol'],
+            currency: country.currency,
+            exchangeRate: getExchangeRate(country['units-per-usd'], source),
+            comparableEvents: comparableEvents[countryCode] || comparableEvents['US'] || [],
+            comparisonPhrases: comparisonPhrases['en'],
+            languageCode: language,
+            storyDate: story.date,
+          },
+          story.id
+        );
+        const fields = readPreTranslatedFields(
+          load(await readFile(join(storiesDir, folder.name, file), 'utf8')) as Record<string, unknown>
+        );
+        const report = checkMarkerParity(story, fields, translations);
+        const staleness = checkStaleness(
+          fields.builtFrom,
+          computeBuiltFrom(story as unknown as Record<string, unknown>, countryCode, {
+            countries,
+            names,
+            places,
+            comparableEvents,
+            comparisonPhrases,
+            sourceContexts,
+          })
+        );
+        const retranslate = `npm run translate -- --story=${folder.name} --lang=${language} --country=${countryCode} --force`;
+        const stalenessIssues: ParityIssue[] = staleness.stale
+          ? [
+              {
+                severity: 'warning',
+                message: `Out of date (${describeStaleness(staleness)}) - re-translate with ${retranslate}`,
+              },
+            ]
+          : staleness.unrecorded
+            ? [
+                {
+                  severity: 'warning',
+                  message: `No built-from hashes, so staleness can't be checked - re-translate with ${retranslate} to record them`,
+                },
+              ]
+            : [];
+        const fileIssues = [...report.issues, ...stalenessIssues];
+
+        for (const issue of fileIssues) {
+          addError(`${folder.name}/${file}`, issue.message, issue.severity);
+        }
+        // Per-file report
+        const failed = fileIssues.some((issue) => issue.severity === 'error');
+        const status = fileIssues.length === 0 ? '✓' : failed ? '✗' : '!';
+        const counts = `${report.markers} markers, ${report.sources} sources, ${report.images} images, ${report.comparisons} comparisons`;
+        const issues = fileIssues.length > 0 ? ` - ${fileIssues.length} issues` : '';
+        console.log(`  ${status} ${folder.name}/${file}: ${counts}${issues}`);
+      }
+    }
+  } catch (error) {
+    addError('stories', `Failed to validate marker parity: ${error}`, 'error');
+  }
+}
+
 /**
  * Main validation function
  */
@@ -231,7 +650,11 @@ async function main() {
 
   await validatePlaces();
   await validateComparableEvents();
+  await validateNames();
+  await validateComparisonPhrases();
+  await validateExplanationPhrases();
   await validateStories();
+  await validateMarkerParity();
 
   // Report results
   const errorCount = errors.filter((e) => e.severity === 'error').length;
@@ -5,6 +5,7 @@
  * across the codebase. This catches errors early:
  * - Missing required fields
  * - Unsupported marker types
+ * - Marker schemas out of sync with the marker type registry
  * - Invalid facility types in places.yaml
  * - YAML syntax errors
  *
@@ -17,6 +18,8 @@ import addFormats from 'ajv-formats';
 import { readFile } from 'fs/promises';
 import { glob } from 'glob';
 import yaml from 'js-yaml';
+import { isDeepStrictEqual } from 'util';
+import { buildStorySchema, getRegisteredMarkerTypes } from '../src/lib/translation/markers/index.ts';
 
 const ajv = new Ajv({
   allErrors: true,
@@ -85,157 +88,22 @@ async function validateFile(filePath, validate, schemaName) {
 }
 
 /**
- * Get the plural form and data path for a place type
+ * Check that story.schema.json matches the marker type registry
+ * Marker schemas are declared next to their resolvers in src/lib/translation/markers/
  */
-function getPlaceTypeInfo(placeType) {
-  // Special cases for landmarks (nested structure)
-  if (placeType === 'landmark-protest') {
-    return {
-      markerCheck: `marker\\['landmark-protest'\\]`,
-      dataCheck: `cityData\\.landmarks\\?\\.protest`
-    };
-  }
-  if (placeType === 'landmark-monument') {
-    return {
-      markerCheck: `marker\\['landmark-monument'\\]`,
-      dataCheck: `cityData\\.landmarks\\?\\.monument`
-    };
-  }
-
-  // Regular pluralization rules
-  const pluralMap = {
-    'university': 'universities',
-    'government-facility': 'government-facilities',
-    'hospital': 'hospitals',
-    'morgue': 'morgues',
-    'prison': 'prisons',
-    'police-station': 'police-stations'
-  };
-
-  const plural = pluralMap[placeType] || `${placeType}s`;
-
-  // Handle both dot notation and bracket notation
-  const markerCheck = placeType.includes('-')
-    ? `marker\\['${placeType}'\\]`
-    : `marker\\.${placeType}`;
-
-  const dataCheck = plural.includes('-')
-    ? `cityData\\['${plural}'\\]`
-    : `cityData\\.${plural}`;
-
-  return { markerCheck, dataCheck };
-}
-
-/**
- * Check that translation script handles all place marker types
- */
-async function checkTranslationScriptCompleteness() {
-  console.log(`\n${colors.blue}Checking translation script completeness...${colors.reset}`);
+function checkMarkerRegistrySync(storySchema) {
+  console.log(`\n${colors.blue}Checking marker registry sync...${colors.reset}`);
 
-  // Load translation script
-  const translateScriptContent = await readFile('scripts/translate-stories.js', 'utf-8');
-
-  // Check if using schema-driven approach
-  const usesSchemaHelpers = /getPlaceFacilityTypes/.test(translateScriptContent);
-
-  if (usesSchemaHelpers) {
-    console.log(`${colors.green}✓${colors.reset} Translation script uses schema-driven approach (getPlaceFacilityTypes)`);
-    return true;
-  }
+  const expected = buildStorySchema(storySchema);
 
-  // Fallback: check for individual handlers (legacy approach)
-  const storySchemaContent = await readFile('schemas/story.schema.json', 'utf-8');
-  const storySchema = JSON.parse(storySchemaContent);
-  const placeMarkerDef = storySchema.definitions.PlaceMarker;
-
-  const placeTypes = Object.keys(placeMarkerDef.properties).filter(key =>
-    key !== 'place' &&
-    key !== 'within' &&
-    key !== 'region' &&
-    key !== 'capital' &&
-    key !== 'population' &&
-    !key.startsWith('city-')
-  );
-
-  const missingHandlers = [];
-  for (const placeType of placeTypes) {
-    const { markerCheck, dataCheck } = getPlaceTypeInfo(placeType);
-    const markerPattern = new RegExp(markerCheck);
-    const dataPattern = new RegExp(dataCheck);
-
-    if (!markerPattern.test(translateScriptContent) || !dataPattern.test(translateScriptContent)) {
-      missingHandlers.push(placeType);
-    }
-  }
-
-  if (missingHandlers.length > 0) {
-    console.log(`${colors.red}✗${colors.reset} Translation script missing handlers for:`);
-    for (const type of missingHandlers) {
-      console.log(`  ${colors.yellow}→${colors.reset} ${type}`);
-    }
-    console.log(`  ${colors.gray}Update scripts/translate-stories.js to handle these types${colors.reset}`);
-    console.log(`  ${colors.gray}Or use schema-driven approach with getPlaceFacilityTypes()${colors.reset}`);
+  if (!isDeepStrictEqual(storySchema, expected)) {
+    console.log(`${colors.red}✗${colors.reset} schemas/story.schema.json is out of sync with the marker registry`);
+    console.log(`  ${colors.gray}Run: npm run generate:story-schema${colors.reset}`);
     return false;
-  } else {
-    console.log(`${colors.green}✓${colors.reset} All place marker types are handled in translation script`);
-    return true;
-  }
-}
-
-/**
- * Check that core.ts handles all place marker types
- */
-async function checkCoreTranslationCompleteness() {
-  console.log(`\n${colors.blue}Checking core.ts translation completeness...${colors.reset}`);
-
-  // Load core.ts
-  const coreContent = await readFile('src/lib/translation/core.ts', 'utf-8');
-
-  // Check if using schema-driven approach
-  const usesSchemaHelpers = /getPlaceFacilityTypes/.test(coreContent);
-
-  if (usesSchemaHelpers) {
-    console.log(`${colors.green}✓${colors.reset} core.ts uses schema-driven approach (getPlaceFacilityTypes)`);
-    return true;
-  }
-
-  // Fallback: check for individual handlers (legacy approach)
-  const storySchemaContent = await readFile('schemas/story.schema.json', 'utf-8');
-  const storySchema = JSON.parse(storySchemaContent);
-  const placeMarkerDef = storySchema.definitions.PlaceMarker;
-
-  const placeTypes = Object.keys(placeMarkerDef.properties).filter(key =>
-    key !== 'place' &&
-    key !== 'within' &&
-    key !== 'region' &&
-    key !== 'capital' &&
-    key !== 'population' &&
-    !key.startsWith('city-')
-  );
-
-  const missingHandlers = [];
-  for (const placeType of placeTypes) {
-    const { markerCheck, dataCheck } = getPlaceTypeInfo(placeType);
-    const markerPattern = new RegExp(markerCheck);
-    const dataPattern = new RegExp(dataCheck);
-
-    if (!markerPattern.test(coreContent) || !dataPattern.test(coreContent)) {
-      missingHandlers.push(placeType);
-    }
   }
 
-  if (missingHandlers.length > 0) {
-    console.log(`${colors.red}✗${colors.reset} core.ts missing handlers for:`);
-    for (const type of missingHandlers) {
-      console.log(`  ${colors.yellow}→${colors.reset} ${type}`);
-    }
-    console.log(`  ${colors.gray}Update src/lib/translation/core.ts to handle these types${colors.reset}`);
-    console.log(`  ${colors.gray}Or use schema-driven approach with getPlaceFacilityTypes()${colors.reset}`);
-    return false;
-  } else {
-    console.log(`${colors.green}✓${colors.reset} All place marker types are handled in core.ts`);
-    return true;
-  }
+  console.log(`${colors.green}✓${colors.reset} Marker definitions match the registry (${getRegisteredMarkerTypes().length} types)`);
+  return true;
 }
 
 async function main() {
@@ -247,7 +115,8 @@ async function main() {
 
   // Validate story files
   console.log(`${colors.blue}Stories:${colors.reset}`);
-  const storySchema = await loadSchema('schemas/story.schema.json');
+  const storySchemaJson = JSON.parse(await readFile('schemas/story.schema.json', 'utf-8'));
+  const storySchema = ajv.compile(buildStorySchema(storySchemaJson));
   const storyFiles = await glob('src/lib/data/stories/*/story.yaml');
 
   for (const file of storyFiles) {
@@ -257,6 +126,18 @@ async function main() {
     else failedFiles++;
   }
 
+  // Validate pre-translated story files
+  console.log(`\n${colors.blue}Pre-translated stories:${colors.reset}`);
+  const preTranslatedSchema = await loadSchema('schemas/pretranslated-story.schema.json');
+  const preTranslatedFiles = await glob('src/lib/data/stories/*/story.*.yaml');
+
+  for (const file of preTranslatedFiles.sort()) {
+    totalFiles++;
+    const valid = await validateFile(file, preTranslatedSchema, 'pretranslated-story.schema.json');
+    if (valid) validFiles++;
+    else failedFiles++;
+  }
+
   // Validate places.yaml
   console.log(`\n${colors.blue}Places:${colors.reset}`);
   const placesSchema = await loadSchema('schemas/places.schema.json');
@@ -281,13 +162,33 @@ async function main() {
   if (namesValid) validFiles++;
   else failedFiles++;
 
-  // Check translation script completeness
-  const translationScriptComplete = await checkTranslationScriptCompleteness();
-  if (!translationScriptComplete) failedFiles++;
+  // Validate comparison-phrases.yaml
+  console.log(`\n${colors.blue}Comparison phrases:${colors.reset}`);
+  const comparisonPhrasesSchema = await loadSchema('schemas/comparison-phrases.schema.json');
+  totalFiles++;
+  const comparisonPhrasesValid = await validateFile('src/lib/data/contexts/comparison-phrases.yaml', comparisonPhrasesSchema, 'comparison-phrases.schema.json');
+  if (comparisonPhrasesValid) validFiles++;
+  else failedFiles++;
+
+  // Validate explanation-phrases.yaml
+  console.log(`\n${colors.blue}Explanation phrases:${colors.reset}`);
+  const explanationPhrasesSchema = await loadSchema('schemas/explanation-phrases.schema.json');
+  totalFiles++;
+  const explanationPhrasesValid = await validateFile('src/lib/data/contexts/explanation-phrases.yaml', explanationPhrasesSchema, 'explanation-phrases.schema.json');
+  if (explanationPhrasesValid) validFiles++;
+  else failedFiles++;
+
+  // Validate source-contexts.yaml
+  console.log(`\n${colors.blue}Source contexts:${colors.reset}`);
+  const sourceContextsSchema = await loadSchema('schemas/source-contexts.schema.json');
+  totalFiles++;
+  const sourceContextsValid = await validateFile('src/lib/data/contexts/source-contexts.yaml', sourceContextsSchema, 'source-contexts.schema.json');
+  if (sourceContextsValid) validFiles++;
+  else failedFiles++;
 
-  // Check core.ts completeness
-  const coreComplete = await checkCoreTranslationCompleteness();
-  if (!coreComplete) failedFiles++;
+  // Check story.schema.json against the marker registry
+  const registryInSync = checkMarkerRegistrySync(storySchemaJson);
+  if (!registryInSync) failedFiles++;
 
   // Summary
   console.log(`\n${'━'.repeat(50)}`);
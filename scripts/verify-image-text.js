@@ -7,6 +7,8 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import yaml from 'js-yaml';
 import { translateMarkerV2 } from '../src/lib/translation/core.ts';
+import { getSourceContext, getExchangeRate } from '../src/lib/translation/source-context.ts';
+import { parsePreTranslated } from '../src/lib/translation/pretranslated-parser.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -20,11 +22,13 @@ async function loadContextData() {
   const countriesYaml = await fs.readFile(path.join(contextsDir, 'countries.yaml'), 'utf8');
   const namesYaml = await fs.readFile(path.join(contextsDir, 'names.yaml'), 'utf8');
   const placesYaml = await fs.readFile(path.join(contextsDir, 'places.yaml'), 'utf8');
+  const sourceContextsYaml = await fs.readFile(path.join(contextsDir, 'source-contexts.yaml'), 'utf8');
 
   contextData = {
     countries: yaml.load(countriesYaml).countries,
     names: yaml.load(namesYaml),
     places: yaml.load(placesYaml),
+    sourceContexts: yaml.load(sourceContextsYaml)['source-contexts'],
   };
   return contextData;
 }
@@ -45,19 +49,22 @@ function formatDateLocalized(dateString, languageCode = 'en') {
 }
 
 // Exact copy of translateWithOriginals from generate-share-images-improved.js
-function translateWithOriginals(text, markers, countryCode, storyId, languageCode = 'en') {
+function translateWithOriginals(text, markers, countryCode, storyId, sourceCountry, languageCode = 'en') {
   const context = contextData;
   const countryNames = context.names[countryCode] || context.names['US'];
   const countryPlaces = context.places[countryCode] || context.places['US'];
   const targetCountry = context.countries.find(c => c.code === countryCode);
+  const source = getSourceContext(context.sourceContexts, sourceCountry);
 
   const translationData = {
     country: countryCode,
     names: countryNames,
     places: countryPlaces,
-    population: targetCountry?.population || 85000000,
+    population: targetCountry?.population || source.population,
+    source,
     currencySymbol: targetCountry?.['currency-symbol'] || '$',
-    rialToLocal: targetCountry?.['rial-to-local'] || 0.000024,
+    currency: targetCountry?.currency,
+    exchangeRate: getExchangeRate(targetCountry?.['units-per-usd'] || 1, source),
     comparableEvents: [],
     languageCode: languageCode,
   };
@@ -66,44 +73,43 @@ function translateWithOriginals(text, markers, countryCode, storyId, languageCod
     markers: markers,
     resolved: new Map(),
     storyId: storyId,
+    assigned: new Map(),
   };
 
-  const paragraphs = text.split(/\n+/).filter(p => p.trim());
+  const { paragraphs } = parsePreTranslated(text);
   const allSegments = [];
   let sourceCounter = 1;
 
-  paragraphs.forEach((paragraph) => {
-    let lastIndex = 0;
-    const markerRegex = /\{\{([^:}]+)(?::([^}]+))?\}\}/g;
-    let match;
+  for (const nodes of paragraphs) {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        allSegments.push({ type: 'text', text: node.text });
+        continue;
+      }
 
-    while ((match = markerRegex.exec(paragraph)) !== null) {
-      if (match.index > lastIndex) {
-        allSegments.push({
-          type: 'text',
-          text: paragraph.substring(lastIndex, match.index),
-        });
+      if (node.type !== 'placeholder') {
+        // Pre-translated markers carry their local value
+        const value = node.type === 'marker' ? node.value : node.translated;
+        allSegments.push({ type: 'text', text: value });
+        continue;
       }
 
-      const [fullMatch, key, suffix] = match;
+      const { key, suffix } = node;
 
       if (key === 'source') {
         allSegments.push({ type: 'source', text: `[${sourceCounter}]` });
         sourceCounter++;
-        lastIndex = match.index + fullMatch.length;
         continue;
       }
 
       if (key === 'image') {
-        lastIndex = match.index + fullMatch.length;
         continue;
       }
 
       const marker = markers[key];
 
       if (!marker) {
-        allSegments.push({ type: 'text', text: fullMatch });
-        lastIndex = match.index + fullMatch.length;
+        allSegments.push({ type: 'text', text: `{{${key}${suffix ? ':' + suffix : ''}}}` });
         continue;
       }
 
@@ -114,14 +120,12 @@ function translateWithOriginals(text, markers, countryCode, storyId, languageCod
           type: 'text',
           text: formattedDate,
         });
-        lastIndex = match.index + fullMatch.length;
         continue;
       }
 
       if (suffix) {
         if (suffix === 'age' && marker.age) {
           allSegments.push({ type: 'text', text: marker.age.toString() });
-          lastIndex = match.index + fullMatch.length;
           continue;
         }
       }
@@ -140,17 +144,8 @@ function translateWithOriginals(text, markers, countryCode, storyId, languageCod
           text: result.value,
         });
       }
-
-      lastIndex = match.index + fullMatch.length;
     }
-
-    if (lastIndex < paragraph.length) {
-      const remaining = paragraph.substring(lastIndex);
-      if (remaining) {
-        allSegments.push({ type: 'text', text: remaining });
-      }
-    }
-  });
+  }
 
   return allSegments;
 }
@@ -166,13 +161,13 @@ async function main() {
   console.log('VERIFYING: raha-2026-en-gr-light.png');
   console.log('='.repeat(80));
 
-  const titleSegments = translateWithOriginals(story.title, story.markers, 'GR', story.id);
+  const titleSegments = translateWithOriginals(story.title, story.markers, 'GR', story.id, story['source-country']);
   const titleText = titleSegments.map(s => s.text).join('');
 
   console.log(`\nTitle that will appear in image:`);
   console.log(`  "${titleText}"\n`);
 
-  const summarySegments = translateWithOriginals(story.summary, story.markers, 'GR', story.id);
+  const summarySegments = translateWithOriginals(story.summary, story.markers, 'GR', story.id, story['source-country']);
   const summaryText = summarySegments.map(s => s.text).join('');
 
   console.log(`Summary that will appear in image:`);
@@ -180,7 +175,7 @@ async function main() {
 
   const contentLines = story.content.split('\n').slice(2, 4); // Skip disclaimer, get first 2 lines
   const contentPreview = contentLines.join('\n');
-  const contentSegments = translateWithOriginals(contentPreview, story.markers, 'GR', story.id);
+  const contentSegments = translateWithOriginals(contentPreview, story.markers, 'GR', story.id, story['source-country']);
   const contentText = contentSegments.map(s => s.text).join('');
 
   console.log(`First lines of content:`);
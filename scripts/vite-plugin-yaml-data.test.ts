@@ -0,0 +1,99 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { ResolvedConfig } from 'vite';
+import { describe, it, expect, vi } from 'vitest';
+import { getSchemaFile, yamlData } from './vite-plugin-yaml-data';
+
+const ROOT = path.resolve('.');
+const DATA = path.join(ROOT, 'src/lib/data');
+const STORY = `${DATA}/stories/mahsa-arrest/story.yaml`;
+
+type Hook = (this: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * The plugin with the parts of Vite's plugin context it uses
+ */
+function createPlugin(root = ROOT) {
+  const plugin = yamlData();
+  (plugin.configResolved as Hook)({ root } as ResolvedConfig);
+
+  const context = {
+    addWatchFile: vi.fn(),
+    error: (error: string | { message: string }): never => {
+      throw Object.assign(new Error(typeof error === 'string' ? error : error.message), error);
+    },
+  };
+  return {
+    context,
+    transform: (code: string, id: string) =>
+      (plugin.transform as Hook).call(context, code, id) as { code: string } | null,
+    watchChange: (id: string) => (plugin.watchChange as Hook).call(context, id),
+  };
+}
+
+describe('yaml data plugin', () => {
+  it('should pick the schema for stories, pre-translated stories and contexts', () => {
+    expect(getSchemaFile(STORY)).toBe('story.schema.json');
+    expect(getSchemaFile(`${DATA}/stories/mahsa-arrest/story.de-de.yaml`)).toBe(
+      'pretranslated-story.schema.json'
+    );
+    expect(getSchemaFile(`${DATA}/contexts/names.yaml`)).toBe('names.schema.json');
+    expect(getSchemaFile(`${DATA}/contexts/index.ts`)).toBeNull();
+  });
+
+  it('should turn valid data files into JSON modules', () => {
+    const { context, transform } = createPlugin();
+    const code = readFileSync(STORY, 'utf-8');
+
+    const result = transform(code, STORY);
+
+    expect(result!.code).toMatch(/^export default \{/);
+    expect(JSON.parse(result!.code.slice('export default '.length, -1)).slug).toBe('mahsa-arrest');
+    expect(context.addWatchFile).toHaveBeenCalledWith(path.join(ROOT, 'schemas/story.schema.json'));
+  });
+
+  it('should leave ?raw imports and other files alone', () => {
+    const { transform } = createPlugin();
+
+    expect(transform('title: [', `${STORY}?raw`)).toBeNull();
+    expect(transform('export {}', `${DATA}/contexts/index.ts`)).toBeNull();
+  });
+
+  it('should report malformed YAML with its file and line', () => {
+    const { transform } = createPlugin();
+
+    expect(() => transform('title: Story\nmarkers: [\n', STORY)).toThrow(
+      expect.objectContaining({
+        message: expect.stringMatching(/^src\/lib\/data\/stories\/mahsa-arrest\/story\.yaml: /),
+        loc: expect.objectContaining({ file: STORY, line: 3 }),
+      })
+    );
+  });
+
+  it('should point schema errors at the invalid marker', () => {
+    const { transform } = createPlugin();
+    const code = readFileSync(STORY, 'utf-8').replace('gender: f', 'gender: q');
+
+    expect(() => transform(code, STORY)).toThrow(
+      "src/lib/data/stories/mahsa-arrest/story.yaml doesn't match schemas/story.schema.json:\n" +
+        '  /markers/person1/gender: must be equal to one of the allowed values ({"allowedValues":["m","f","x"]})'
+    );
+  });
+
+  it('should validate against an edited schema after it changes', () => {
+    const root = mkdtempSync(path.join(tmpdir(), 'yaml-data-'));
+    mkdirSync(path.join(root, 'schemas'));
+    const schemaPath = path.join(root, 'schemas/names.schema.json');
+    const file = path.join(root, 'src/lib/data/contexts/names.yaml');
+    writeFileSync(schemaPath, JSON.stringify({ type: 'object' }));
+    const { transform, watchChange } = createPlugin(root);
+
+    expect(transform('US: {}', file)).not.toBeNull();
+    writeFileSync(schemaPath, JSON.stringify({ type: 'object', required: ['DE'] }));
+    watchChange(schemaPath);
+
+    expect(() => transform('US: {}', file)).toThrow("must have required property 'DE'");
+    rmSync(root, { recursive: true });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Vite plugin for story and context YAML
+ *
+ * Imports of stories/{slug}/story*.yaml and contexts/*.yaml (without `?raw`) are
+ * parsed at build time, validated against their JSON schema and turned into
+ * JSON modules, typed in src/yaml-data.d.ts. A file that doesn't match its
+ * schema fails the build, and shows in the error overlay during `npm run dev`;
+ * editing a data file or its schema hot-reloads the pages using it.
+ *
+ * Schemas (in schemas/):
+ * - stories/{slug}/story.yaml: story.schema.json
+ * - stories/{slug}/story.{lang}-{country}.yaml: pretranslated-story.schema.json
+ * - contexts/{name}.yaml: {name}.schema.json, if there is one (else only parsed)
+ */
+
+import Ajv from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { existsSync, readFileSync } from 'fs';
+import { load, YAMLException } from 'js-yaml';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+const DATA_FILE =
+  /\/src\/lib\/data\/(?:stories\/[^/]+\/story(\.[a-z]{2}-[a-z]{2})?|contexts\/([^/]+))\.yaml$/;
+
+const MAX_ERRORS = 10; // Schema errors shown per file
+
+/**
+ * Schema a story or context file is validated against
+ * @returns null for other files
+ */
+export function getSchemaFile(file: string): string | null {
+  const match = file.match(DATA_FILE);
+  if (!match) return null;
+
+  const [, locale, contextName] = match;
+  if (contextName) return `${contextName}.schema.json`;
+  return locale ? 'pretranslated-story.schema.json' : 'story.schema.json';
+}
+
+/**
+ * One line per schema error, e.g. "/markers/tehran: must have required property 'place'"
+ */
+export function formatSchemaErrors(errors: ErrorObject[]): string[] {
+  const lines = errors.slice(0, MAX_ERRORS).map((error) => {
+    const params = Object.keys(error.params).length ? ` (${JSON.stringify(error.params)})` : '';
+    return `${error.instancePath || '/'}: ${error.message}${params}`;
+  });
+  if (errors.length > MAX_ERRORS) {
+    lines.push(`... and ${errors.length - MAX_ERRORS} more (npm run validate:schemas lists all)`);
+  }
+  return lines;
+}
+
+function compileSchema(schemaPath: string): ValidateFunction {
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  addFormats(ajv);
+  return ajv.compile(JSON.parse(readFileSync(schemaPath, 'utf-8')));
+}
+
+export function yamlData(): Plugin {
+  let root = process.cwd();
+  // Compiled schemas, by path (dropped when a schema is edited)
+  const validators = new Map<string, ValidateFunction>();
+
+  return {
+    name: 'yaml-data',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    transform(code, id) {
+      const schemaFile = getSchemaFile(id);
+      if (!schemaFile) return null;
+      const file = path.relative(root, id);
+
+      let data: unknown;
+      try {
+        data = load(code);
+      } catch (error) {
+        if (!(error instanceof YAMLException)) throw error;
+        this.error({
+          message: `${file}: ${error.reason}`,
+          loc: { file: id, line: error.mark.line + 1, column: error.mark.column },
+        });
+      }
+
+      const schemaPath = path.join(root, 'schemas', schemaFile);
+      if (existsSync(schemaPath)) {
+        this.addWatchFile(schemaPath);
+        let validate = validators.get(schemaPath);
+        if (!validate) {
+          validate = compileSchema(schemaPath);
+          validators.set(schemaPath, validate);
+        }
+
+        if (!validate(data)) {
+          const errors = formatSchemaErrors(validate.errors ?? []);
+          this.error(`${file} doesn't match schemas/${schemaFile}:\n  ${errors.join('\n  ')}`);
+        }
+      }
+
+      return { code: `export default ${JSON.stringify(data)};`, map: null };
+    },
+
+    watchChange(id) {
+      validators.delete(id);
+    },
+  };
+}
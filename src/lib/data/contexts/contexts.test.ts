@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { countries } from '$lib/data/contexts';
 import { getCountryNames, getCountryPlacesV2 } from '$lib/data/contexts';
+import { comparisonPhrases, countryLanguages, sourceContexts } from '$lib/data/contexts';
+import { DEFAULT_SOURCE_COUNTRY } from '$lib/translation/source-context';
+import { toWeightedName } from '$lib/translation/markers/person';
 
 describe('Countries YAML Validation', () => {
   it('should have at least one country', () => {
@@ -21,9 +24,9 @@ describe('Countries YAML Validation', () => {
       expect(typeof country.currency).toBe('string');
       expect(country['currency-symbol']).toBeDefined();
       expect(typeof country['currency-symbol']).toBe('string');
-      expect(country['rial-to-local']).toBeDefined();
-      expect(typeof country['rial-to-local']).toBe('number');
-      expect(country['rial-to-local']).toBeGreaterThan(0);
+      expect(country['units-per-usd']).toBeDefined();
+      expect(typeof country['units-per-usd']).toBe('number');
+      expect(country['units-per-usd']).toBeGreaterThan(0);
       expect(country.timezones).toBeDefined();
       expect(Array.isArray(country.timezones)).toBe(true);
       expect(country.timezones.length).toBeGreaterThan(0);
@@ -89,10 +92,12 @@ describe('Names YAML Validation', () => {
   it('should have all names as non-empty strings', () => {
     countries.forEach((country) => {
       const names = getCountryNames(country.code);
-      [...names.male, ...names.female, ...names.neutral].forEach((name) => {
+      [...names.male, ...names.female, ...names.neutral].forEach((entry) => {
+        const { name, weight } = toWeightedName(entry);
         expect(typeof name).toBe('string');
         expect(name.length).toBeGreaterThan(0);
         expect(name.trim()).toBe(name); // No leading/trailing whitespace
+        expect(weight).toBeGreaterThan(0);
       });
     });
   });
@@ -154,3 +159,38 @@ describe('Places V2 YAML Validation', () => {
 
   // Generic fallbacks were removed - all places are now city-specific
 });
+
+describe('Comparison Phrases YAML Validation', () => {
+  it('should have phrases for every shipped language', () => {
+    const languages = new Set([
+      ...Object.values(countryLanguages.countries).flatMap((c) => c.languages),
+      ...Object.keys(countryLanguages.language_names),
+    ]);
+
+    languages.forEach((language) => {
+      const phrases = comparisonPhrases[language];
+      expect(phrases, `Missing comparison phrases for ${language}`).toBeDefined();
+      expect(phrases.approximately).toContain('{event');
+      expect(phrases.multiple.times).toContain('{n}');
+      expect(phrases.casualties.other).toContain('{count}');
+    });
+  });
+});
+
+describe('Source Contexts YAML Validation', () => {
+  it('should include the default source country', () => {
+    expect(sourceContexts.map((s) => s.code)).toContain(DEFAULT_SOURCE_COUNTRY);
+  });
+
+  it('should have population, currency and cities for every source', () => {
+    sourceContexts.forEach((source) => {
+      expect(source.population).toBeGreaterThan(0);
+      expect(source.currency).toMatch(/^[A-Z]{3}$/);
+      expect(source['currency-name']).toBeTruthy();
+      expect(source['units-per-usd']).toBeGreaterThan(0);
+      source.cities.forEach((city) => {
+        expect(city.population, `${source.code}/${city.name}`).toBeLessThan(source.population);
+      });
+    });
+  });
+});
@@ -1,33 +1,28 @@
-import { load } from 'js-yaml';
-import type { Country, NameMappings } from '$lib/types';
-import type { PlacesDataV2, ComparableEvent } from '$lib/translation/core';
-
-import countriesYaml from './countries.yaml?raw';
-import namesYaml from './names.yaml?raw';
-import placesYaml from './places.yaml?raw';
-import comparableEventsYaml from './comparable-events.yaml?raw';
-import countryLanguagesYaml from './country-languages.yaml?raw';
-
-export const countries: Country[] = (load(countriesYaml) as { countries: Country[] }).countries;
-export const names: NameMappings = load(namesYaml) as NameMappings;
+import type { Country, CountryLanguages, NameMappings, SourceContext } from '$lib/types';
+import type { PlacesDataV2, ComparableEvent, ComparisonPhrases } from '$lib/translation/core';
+import type { ExplanationPhrases, ExplanationLocale } from '$lib/translation/explanations';
+
+// Parsed and schema-checked at build time (scripts/vite-plugin-yaml-data.ts)
+import countriesData from './countries.yaml';
+import namesData from './names.yaml';
+import placesData from './places.yaml';
+import comparableEventsData from './comparable-events.yaml';
+import comparisonPhrasesData from './comparison-phrases.yaml';
+import explanationPhrasesData from './explanation-phrases.yaml';
+import countryLanguagesData from './country-languages.yaml';
+import sourceContextsData from './source-contexts.yaml';
+
+export const countries: Country[] = countriesData.countries;
+export const names: NameMappings = namesData;
+export const sourceContexts: SourceContext[] = sourceContextsData['source-contexts'];
 
 // V2 data (now the primary data)
-export const placesV2: Record<string, PlacesDataV2> = load(placesYaml) as Record<
-  string,
-  PlacesDataV2
->;
-export const comparableEvents: Record<string, ComparableEvent[]> = load(
-  comparableEventsYaml
-) as Record<string, ComparableEvent[]>;
-
-interface CountryLanguagesData {
-  countries: Record<string, { languages: string[] }>;
-  language_names: Record<string, string>;
-}
+export const placesV2: Record<string, PlacesDataV2> = placesData;
+export const comparableEvents: Record<string, ComparableEvent[]> = comparableEventsData;
+export const comparisonPhrases: Record<string, ComparisonPhrases> = comparisonPhrasesData;
+export const explanationPhrases: Record<string, ExplanationPhrases> = explanationPhrasesData;
 
-export const countryLanguages: CountryLanguagesData = load(
-  countryLanguagesYaml
-) as CountryLanguagesData;
+export const countryLanguages: CountryLanguages = countryLanguagesData;
 export const languageNames = countryLanguages.language_names;
 
 export function getCountryByCode(code: string): Country | undefined {
@@ -46,3 +41,18 @@ export function getCountryPlacesV2(code: string): PlacesDataV2 {
 export function getCountryComparableEvents(code: string): ComparableEvent[] {
   return comparableEvents[code] || []; // Return empty array if no events for country
 }
+
+/**
+ * Templates for formatting explanations for a reader (falls back to English)
+ */
+export function getExplanationLocale(
+  languageCode: string,
+  countryCode?: string
+): ExplanationLocale {
+  return {
+    languageCode,
+    countryCode,
+    phrases: explanationPhrases[languageCode] || explanationPhrases['en'],
+    comparisonPhrases: comparisonPhrases[languageCode] || comparisonPhrases['en'],
+  };
+}
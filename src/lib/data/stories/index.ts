@@ -1,20 +1,19 @@
-import { load } from 'js-yaml';
 import type { Story } from '$lib/types';
 import type { LanguageCode } from '$lib/stores/language';
 import type { CountryCode } from '$lib/types';
+import { toInlineStory } from '$lib/translation/pretranslated-story';
 
-// Import story YAML files as raw strings
-import mahsaArrestYaml from './mahsa-arrest/story.yaml?raw';
-import raha2026Yaml from './raha-2026/story.yaml?raw';
-import rideHomeYaml from './ride-home/story.yaml?raw';
+// Import stories (parsed and schema-checked at build time by scripts/vite-plugin-yaml-data.ts)
+import mahsaArrest from './mahsa-arrest/story.yaml';
+import raha2026 from './raha-2026/story.yaml';
+import rideHome from './ride-home/story.yaml';
 
 // Import translated versions (dynamically imported later)
-const storyModules = import.meta.glob('./*/story.*.yaml', { query: '?raw', import: 'default' });
+const storyModules = import.meta.glob<Record<string, unknown>>('./*/story.*.yaml', {
+  import: 'default',
+});
 
-// Parse stories
-const storyFiles = [mahsaArrestYaml, raha2026Yaml, rideHomeYaml];
-
-export const stories: Story[] = storyFiles.map((yaml) => load(yaml) as Story);
+export const stories: Story[] = [mahsaArrest, raha2026, rideHome];
 
 export function getStoryBySlug(slug: string): Story | undefined {
   return stories.find((story) => story.slug === slug);
@@ -53,8 +52,8 @@ export async function getStoryBySlugTranslated(
     const loader = storyModules[translatedPath];
     if (loader) {
       console.log(`Found loader for ${translatedPath}`);
-      const yaml = (await loader()) as string;
-      const story = load(yaml) as Story;
+      // Segmented files (format: 3) are returned with inline [[MARKER:...]] text
+      const story = toInlineStory(await loader()) as unknown as Story;
       return story;
     } else {
       console.warn(`No loader found for ${translatedPath}`);
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { stories } from '$lib/data/stories';
 import { translateStory } from '$lib/translation/pipeline';
 import { getCountryByCode } from '$lib/data/contexts';
+import { PERSON_FORMS } from '$lib/translation/pronouns';
 
 describe('Stories Data Validation', () => {
   it('should have at least one story', () => {
@@ -247,6 +248,242 @@ describe('Story Translation Validation', () => {
       }
     });
   });
+
+  it('should resolve placeholders left inside pre-translated marker values', () => {
+    const translated = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'DE',
+      language: 'de',
+      contextualizationEnabled: true,
+    });
+    expect(translated.metadata.translationSource).toBe('pre-translated');
+
+    const squares = translated.content.filter((seg) => seg.key === 'main-square');
+    expect(squares.length).toBeGreaterThan(0);
+    squares.forEach((seg) => {
+      expect(seg.text).not.toContain('{{');
+      expect(seg.original).toBe('Azadi-Platz');
+    });
+    expect(translated.diagnostics).toContainEqual(
+      expect.objectContaining({ severity: 'warning', key: 'main-square' })
+    );
+  });
+
+  it('should not report pre-translated stories without built-from hashes as stale', () => {
+    const input = {
+      storySlug: 'mahsa-arrest',
+      country: 'DE',
+      language: 'de',
+      contextualizationEnabled: true,
+    };
+
+    // Translated before built-from hashes were recorded
+    for (const translated of [
+      translateStory(input),
+      translateStory({ ...input, stalePreTranslated: 'runtime' }),
+    ]) {
+      expect(translated.metadata.translationSource).toBe('pre-translated');
+      expect(translated.diagnostics).not.toContainEqual(
+        expect.objectContaining({ reason: expect.stringContaining('out of date') })
+      );
+    }
+  });
+
+  it('should report places without a local match, shown with their Iranian name', () => {
+    const translated = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'US',
+      language: 'en',
+      contextualizationEnabled: true,
+    });
+
+    expect(translated.diagnostics).toContainEqual({
+      severity: 'warning',
+      key: 'hometown',
+      fallback: 'Mashhad',
+      reason: 'No matching place in the country',
+    });
+    expect(translated.diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+  });
+
+  it("should re-contextualize another country's pre-translated story", () => {
+    // No de-us file: de-de's sentences with marker values for the US
+    const translated = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'US',
+      language: 'de',
+      contextualizationEnabled: true,
+    });
+    const german = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'DE',
+      language: 'de',
+      contextualizationEnabled: true,
+    });
+    const runtime = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'US',
+      language: 'en',
+      contextualizationEnabled: true,
+    });
+
+    expect(translated.metadata).toMatchObject({
+      preTranslatedLocale: 'de-de',
+      recontextualized: true,
+    });
+    expect(german.metadata).toMatchObject({
+      preTranslatedLocale: 'de-de',
+      recontextualized: false,
+    });
+
+    const texts = (segments: typeof translated.content) =>
+      segments.filter((seg) => seg.key === null).map((seg) => seg.text);
+    expect(texts(translated.content)).toEqual(texts(german.content));
+
+    // The person is the US reader's, with the German file's translated original
+    const person = (output: typeof translated) =>
+      output.content.find((seg) => seg.key === 'person1')!;
+    expect(person(translated).text).toBe(person(runtime).text);
+    expect(person(translated).original).toBe(person(german).original);
+  });
+
+  it("should keep the inflection of another country's file", () => {
+    // de-de's title is "Lenas Festnahme" (genitive) - no de-at file
+    const translated = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'AT',
+      language: 'de',
+      contextualizationEnabled: true,
+    });
+    const name = translated.content.find((seg) => seg.key === 'person1')!.text;
+
+    expect(translated.metadata).toMatchObject({
+      preTranslatedLocale: 'de-de',
+      recontextualized: true,
+    });
+    expect(name).not.toBe('Lena');
+    expect(translated.title.map((seg) => seg.text)).toEqual([`${name}s`, ' Festnahme']);
+    expect(translated.title[0]).toMatchObject({ key: 'person1', original: 'Zahras' });
+  });
+
+  it("should reproduce a reader's reroll from its seed", () => {
+    const input = {
+      storySlug: 'mahsa-arrest',
+      country: 'DE',
+      language: 'de',
+      contextualizationEnabled: true,
+    };
+    const values = (output: ReturnType<typeof translateStory>) =>
+      output.content.filter((seg) => seg.key !== null).map((seg) => seg.text);
+
+    const rerolls = ['k3x9q2', 'p0w7mz', '4hd8ra'].map((seed) =>
+      translateStory({ ...input, seed })
+    );
+
+    // The country's own file, with marker values re-resolved for the seed
+    expect(rerolls[0].metadata).toMatchObject({
+      preTranslatedLocale: 'de-de',
+      recontextualized: true,
+    });
+    expect(values(translateStory({ ...input, seed: 'k3x9q2' }))).toEqual(values(rerolls[0]));
+    expect(rerolls.map(values)).not.toEqual(rerolls.map(() => values(translateStory(input))));
+
+    // Rerolled names keep the file's genitive ("Lenas Festnahme")
+    for (const reroll of rerolls) {
+      const name = reroll.content.find((seg) => seg.key === 'person1')!.text;
+      expect(reroll.title.map((seg) => seg.text)).toEqual([`${name}s`, ' Festnahme']);
+    }
+  });
+
+  it("should render pronouns in story.yaml's language at runtime", () => {
+    const translated = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'DE',
+      language: 'de',
+      contextualizationEnabled: true,
+      preferredTranslationSource: 'runtime',
+    });
+    const name = translated.content.find((seg) => seg.key === 'person1')!.text;
+    const whereabouts = translated.content.findIndex((seg) => seg.text.startsWith(' whereabouts.'));
+
+    // {{person1:possessive}} Detention, ... about {{person1:their}} whereabouts
+    expect(translated.title[0]).toMatchObject({ text: `${name}'s`, original: "Zahra's" });
+    expect(translated.content[whereabouts - 1]).toMatchObject({ text: 'her', key: 'person1' });
+  });
+
+  it('should translate at runtime without a fallback when configured', () => {
+    const translated = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'US',
+      language: 'de',
+      contextualizationEnabled: true,
+      preTranslatedFallback: 'runtime',
+    });
+
+    expect(translated.metadata).toMatchObject({
+      translationSource: 'runtime',
+      recontextualized: false,
+    });
+    expect(translated.metadata.preTranslatedLocale).toBeUndefined();
+  });
+
+  it('should only point out originals of contextualized categories', () => {
+    const translated = translateStory({
+      storySlug: 'raha-2026',
+      country: 'DE',
+      language: 'en',
+      contextualizationEnabled: true,
+      contextualization: { numbers: false },
+    });
+    const segments = [...translated.title, ...translated.summary, ...translated.content];
+
+    // Aliases show as the place they point to
+    const capital = segments.find((seg) => seg.key === 'capital');
+    expect(capital?.type).toBe('place');
+    expect(capital?.tooltip).toMatch(/^Original: /);
+
+    const numbers = segments.filter((seg) => seg.type === 'number' && seg.original);
+    expect(numbers.length).toBeGreaterThan(0);
+    numbers.forEach((seg) => expect(seg.tooltip).toBeUndefined());
+  });
+
+  it('should show dates and times with the Iranian original', () => {
+    const runtime = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'US',
+      language: 'en',
+      contextualizationEnabled: true,
+      preferredTranslationSource: 'runtime',
+    });
+    expect(runtime.content.find((seg) => seg.key === 'arrest-date')).toMatchObject({
+      text: 'September 20th, 2022',
+      original: 'Shahrivar 29, 1401 AP',
+      type: 'date',
+      style: 'strikethrough-muted',
+    });
+    const time = runtime.content.find((seg) => seg.key === 'raid-time')!;
+    expect(time.text).toMatch(/^9:30\sPM$/);
+    expect(time).toMatchObject({ original: '21:30', type: 'time' });
+
+    // Pre-translated files keep the ISO date; Germany reads times as Iran does
+    const preTranslated = translateStory({
+      storySlug: 'mahsa-arrest',
+      country: 'DE',
+      language: 'de',
+      contextualizationEnabled: true,
+      contextualization: { dates: false },
+    });
+    expect(preTranslated.metadata.translationSource).toBe('pre-translated');
+    expect(preTranslated.content.find((seg) => seg.key === 'arrest-date')).toMatchObject({
+      text: '20. September 2022',
+      original: '29. Schahriwar 1401 AP',
+      tooltip: undefined,
+    });
+    expect(preTranslated.content.find((seg) => seg.key === 'raid-time')).toMatchObject({
+      text: '21:30',
+      original: null,
+    });
+  });
 });
 
 describe('Story Marker Validation', () => {
@@ -274,8 +511,10 @@ describe('Story Marker Validation', () => {
               // Suffix is a marker key, should be defined
               // (validated in another test)
             } else {
-              // Regular marker suffix (age, comparable, etc.)
-              expect(['age', 'comparable', 'original', 'translated']).toContain(suffix);
+              // Regular marker suffix (age, comparable, pronouns, etc.)
+              expect(['age', 'comparable', 'original', 'translated', ...PERSON_FORMS]).toContain(
+                suffix
+              );
             }
           }
         }
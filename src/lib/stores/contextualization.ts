@@ -1,23 +1,44 @@
-import { writable } from 'svelte/store';
+import { derived, get, writable } from 'svelte/store';
 import { browser } from '$app/environment';
+import {
+  createMask,
+  decodeMask,
+  encodeMask,
+  isAnyContextualized,
+} from '$lib/translation/contextualization';
+import type { ContextualizationMask } from '$lib/translation/contextualization';
 
-// Store for tracking whether contextualization is enabled
-// DEFAULT: true (show local context - names, places, values translated)
-// When false: show original Iranian context
-// When true: show localized context (DEFAULT)
-export const contextualizationEnabled = writable<boolean>(true);
+// Store for which categories (people, places, numbers, ...) show local context
+// DEFAULT: all (show local context - names, places, values translated)
+// A category that is off shows the original Iranian context
+export const contextualization = writable<ContextualizationMask>(createMask(true));
 
 // Load from localStorage on initialization
 if (browser) {
-  const stored = localStorage.getItem('contextualization-enabled');
-  if (stored !== null) {
-    contextualizationEnabled.set(stored === 'true');
+  const stored = decodeMask(localStorage.getItem('contextualization'));
+  if (stored) {
+    contextualization.set(stored);
+  } else if (localStorage.getItem('contextualization-enabled') === 'false') {
+    // Saved before categories could be chosen separately
+    contextualization.set(createMask(false));
   }
 }
 
 // Persist to localStorage on changes
-contextualizationEnabled.subscribe((value) => {
+contextualization.subscribe((mask) => {
   if (browser) {
-    localStorage.setItem('contextualization-enabled', String(value));
+    localStorage.setItem('contextualization', encodeMask(mask));
   }
 });
+
+const anyContextualized = derived(contextualization, isAnyContextualized);
+
+// Whether any category is contextualized
+// When false: show original Iranian context
+// When true: show localized context (DEFAULT); setting it turns every category on or off
+export const contextualizationEnabled = {
+  subscribe: anyContextualized.subscribe,
+  set: (enabled: boolean) => contextualization.set(createMask(enabled)),
+  update: (fn: (enabled: boolean) => boolean) =>
+    contextualization.set(createMask(fn(get(anyContextualized)))),
+};
@@ -0,0 +1,20 @@
+import { writable } from 'svelte/store';
+
+// Store for the reader's reroll ("Show me another version")
+// DEFAULT: null (the version everyone in the country sees)
+// Not persisted: a reroll lasts until the reader leaves, or is shared as ?seed=
+export const readerSeed = writable<string | null>(null);
+
+const SEED_PATTERN = /^[a-z0-9]{1,16}$/;
+
+/**
+ * Read a seed from a URL
+ * @returns null if there is none or it isn't a seed we generate
+ */
+export function parseSeed(value: string | null): string | null {
+  return value !== null && SEED_PATTERN.test(value) ? value : null;
+}
+
+export function rerollSeed(): void {
+  readerSeed.set(Math.random().toString(36).slice(2, 8));
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CATEGORY_BY_TYPE,
+  createMask,
+  decodeMask,
+  encodeMask,
+  isAnyContextualized,
+  isContextualized,
+} from './contextualization';
+import { getRegisteredMarkerTypes } from './markers';
+
+describe('contextualization by category', () => {
+  it('should map registered marker types to categories', () => {
+    const types: string[] = [...getRegisteredMarkerTypes(), 'comparison'];
+    for (const type of Object.keys(CATEGORY_BY_TYPE)) {
+      expect(types).toContain(type);
+    }
+  });
+
+  it('should contextualize segments whose category is not masked out', () => {
+    const mask = { ...createMask(true), numbers: false, casualties: false };
+
+    expect(isContextualized(mask, 'person')).toBe(true);
+    expect(isContextualized(mask, 'number')).toBe(false);
+    expect(isContextualized(mask, 'comparison')).toBe(false);
+    expect(isContextualized(mask, 'text')).toBe(true); // No category
+    expect(isContextualized({ dates: false }, 'time')).toBe(false);
+    expect(isContextualized({ places: false }, 'person')).toBe(true);
+    expect(isContextualized(undefined, 'place')).toBe(true);
+  });
+
+  it('should encode masks as the contextualized categories', () => {
+    const mask = { ...createMask(false), people: true, places: true };
+
+    expect(encodeMask(mask)).toBe('people,places');
+    expect(encodeMask(createMask(true))).toBe('all');
+    expect(encodeMask(createMask(false))).toBe('none');
+
+    expect(decodeMask('people,places')).toEqual(mask);
+    expect(decodeMask('all')).toEqual(createMask(true));
+    expect(decodeMask('none')).toEqual(createMask(false));
+    expect(decodeMask('numbers,typo')).toEqual({ ...createMask(false), numbers: true });
+    expect(decodeMask(null)).toBeNull();
+  });
+
+  it('should count a mask with any category on as contextualized', () => {
+    expect(isAnyContextualized({ ...createMask(false), currency: true })).toBe(true);
+    expect(isAnyContextualized(createMask(false))).toBe(false);
+  });
+});
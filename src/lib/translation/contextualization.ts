@@ -0,0 +1,101 @@
+/**
+ * Contextualization by category
+ *
+ * Readers can keep some categories in their original Iranian form - e.g., local
+ * names and places with the original numbers, or only the numbers scaled to
+ * discuss proportion. A mask says which categories are contextualized; segments
+ * are matched to a category by their marker type.
+ *
+ * Masks are encoded for share URLs and storage as the contextualized
+ * categories, comma-separated ('people,places'), or 'all' / 'none'.
+ */
+
+import type { MarkerTypeName } from './markers';
+
+export const CONTEXT_CATEGORIES = [
+  'people',
+  'places',
+  'numbers',
+  'casualties',
+  'currency',
+  'dates',
+] as const;
+export type ContextCategory = (typeof CONTEXT_CATEGORIES)[number];
+
+export type ContextualizationMask = Record<ContextCategory, boolean>;
+
+export const CONTEXT_CATEGORY_LABELS: Record<ContextCategory, string> = {
+  people: 'People',
+  places: 'Places',
+  numbers: 'Numbers',
+  casualties: 'Casualties',
+  currency: 'Currency',
+  dates: 'Dates',
+};
+
+/**
+ * Category of each segment type (types not listed are never contextualized)
+ */
+export const CATEGORY_BY_TYPE: Partial<Record<MarkerTypeName | 'comparison', ContextCategory>> = {
+  person: 'people',
+  occupation: 'people',
+  place: 'places',
+  distance: 'places',
+  number: 'numbers',
+  casualties: 'casualties',
+  comparison: 'casualties',
+  currency: 'currency',
+  date: 'dates',
+  time: 'dates',
+};
+
+export function createMask(contextualized: boolean): ContextualizationMask {
+  return Object.fromEntries(
+    CONTEXT_CATEGORIES.map((category) => [category, contextualized])
+  ) as ContextualizationMask;
+}
+
+export function getContextCategory(segmentType: string | null): ContextCategory | null {
+  return CATEGORY_BY_TYPE[segmentType as keyof typeof CATEGORY_BY_TYPE] ?? null;
+}
+
+/**
+ * Whether a segment of this type shows its local value
+ * @param mask - Categories left out are contextualized
+ */
+export function isContextualized(
+  mask: Partial<ContextualizationMask> | undefined,
+  segmentType: string | null
+): boolean {
+  const category = getContextCategory(segmentType);
+  return !category || mask?.[category] !== false;
+}
+
+/**
+ * Whether any category is contextualized (the "My Context" side of the toggle)
+ */
+export function isAnyContextualized(mask: ContextualizationMask): boolean {
+  return CONTEXT_CATEGORIES.some((category) => mask[category]);
+}
+
+export function encodeMask(mask: ContextualizationMask): string {
+  const categories = CONTEXT_CATEGORIES.filter((category) => mask[category]);
+  if (categories.length === CONTEXT_CATEGORIES.length) return 'all';
+  return categories.length > 0 ? categories.join(',') : 'none';
+}
+
+/**
+ * Read an encoded mask (unknown categories are ignored)
+ * @returns null if there is none
+ */
+export function decodeMask(value: string | null): ContextualizationMask | null {
+  if (value === null || value === '') return null;
+  if (value === 'all') return createMask(true);
+
+  const categories = value.split(',');
+  const mask = createMask(false);
+  for (const category of CONTEXT_CATEGORIES) {
+    mask[category] = categories.includes(category);
+  }
+  return mask;
+}
@@ -0,0 +1,702 @@
+import { describe, it, expect } from 'vitest';
+import { translateMarkersV2 } from './core';
+import { getBirthDecade, getGenerationNamePool, getNamePool } from './markers/person';
+import { generateComparisonText } from './markers/casualties';
+import { getExchangeRate } from './source-context';
+import type { TranslationDataV2, ComparableEvent } from './core';
+import type { Marker, SourceContext } from '$lib/types';
+import { formatExplanation } from './explanations';
+import type { Explanation } from './explanations';
+import { comparisonPhrases, getExplanationLocale } from '$lib/data/contexts';
+
+// Explanations as an English (or other) reader sees them
+const explain = (explanation: Explanation | undefined, languageCode = 'en', countryCode?: string) =>
+  explanation && formatExplanation(explanation, getExplanationLocale(languageCode, countryCode));
+
+const IRAN: SourceContext = {
+  code: 'IR',
+  name: 'Iran',
+  population: 85000000,
+  currency: 'IRR',
+  'currency-name': 'Rial',
+  'units-per-usd': 50000,
+  cities: [
+    {
+      name: 'Tehran',
+      population: 8500000,
+      province: 'Tehran',
+      coordinates: { lat: 35.69, lon: 51.39 },
+    },
+  ],
+};
+
+const TEST_DATA: TranslationDataV2 = {
+  country: 'XX',
+  names: {
+    female: ['Anna', 'Berta', 'Clara'],
+    male: ['Adam', 'Boris', 'Carl'],
+    neutral: ['Alex', 'Sam', 'Robin'],
+    regional: {
+      north: {
+        female: ['Nora', 'Nina', 'Noor'],
+      },
+    },
+  },
+  places: {
+    cities: [
+      {
+        id: 'northtown',
+        name: 'Northtown',
+        size: 'medium',
+        capital: false,
+        population: 400000,
+        region: 'north',
+        landmarks: { protest: ['North Square'] },
+      },
+      {
+        id: 'capital-city',
+        name: 'Capital City',
+        size: 'large',
+        capital: true,
+        population: 2000000,
+        region: 'central',
+        landmarks: { protest: ['Central Square'] },
+      },
+    ],
+  },
+  population: 10000000,
+  source: IRAN,
+  currencySymbol: '€',
+  exchangeRate: 0.00002,
+  languageCode: 'en',
+};
+
+describe('core translation', () => {
+  describe('getNamePool', () => {
+    it('should return the national pool without a region', () => {
+      expect(getNamePool(TEST_DATA.names, 'f')).toEqual(['Anna', 'Berta', 'Clara']);
+      expect(getNamePool(TEST_DATA.names, 'm')).toEqual(['Adam', 'Boris', 'Carl']);
+      expect(getNamePool(TEST_DATA.names, 'x')).toEqual(['Alex', 'Sam', 'Robin']);
+    });
+
+    it('should prefer the regional pool when the region has one', () => {
+      expect(getNamePool(TEST_DATA.names, 'f', 'north')).toEqual(['Nora', 'Nina', 'Noor']);
+    });
+
+    it('should fall back to the national pool for missing regions or genders', () => {
+      expect(getNamePool(TEST_DATA.names, 'm', 'north')).toEqual(['Adam', 'Boris', 'Carl']);
+      expect(getNamePool(TEST_DATA.names, 'f', 'central')).toEqual(['Anna', 'Berta', 'Clara']);
+    });
+  });
+
+  describe('regional person names', () => {
+    it('should pick names from the region of the place the person is from', () => {
+      const markers: Record<string, Marker> = {
+        person1: { person: 'Zahra', gender: 'f', from: 'hometown' },
+        hometown: { place: 'Saqqez', 'city-medium': true },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(results.hometown.value).toBe('Northtown');
+      expect(['Nora', 'Nina', 'Noor']).toContain(results.person1.value);
+    });
+
+    it('should follow landmarks and aliases to their city', () => {
+      const markers: Record<string, Marker> = {
+        person1: { person: 'Zahra', gender: 'f', from: 'square' },
+        person2: { person: 'Shirin', gender: 'f', from: 'home' },
+        hometown: { place: 'Saqqez', 'city-medium': true },
+        square: { place: 'Azadi Square', 'landmark-protest': true, within: 'hometown' },
+        home: { sameAs: 'hometown' },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(['Nora', 'Nina', 'Noor']).toContain(results.person1.value);
+      expect(['Nora', 'Nina', 'Noor']).toContain(results.person2.value);
+    });
+
+    it('should use the national pool when the local city has no regional names', () => {
+      const markers: Record<string, Marker> = {
+        person1: { person: 'Zahra', gender: 'f', from: 'capital' },
+        capital: { place: 'Tehran', 'city-large': true, capital: true },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(results.capital.value).toBe('Capital City');
+      expect(['Anna', 'Berta', 'Clara']).toContain(results.person1.value);
+    });
+  });
+
+  describe('generation-aware person names', () => {
+    const DATA: TranslationDataV2 = {
+      ...TEST_DATA,
+      storyDate: '2022-09-20',
+      names: {
+        ...TEST_DATA.names,
+        decades: {
+          '1960': { male: [{ name: 'Dieter', weight: 1 }] },
+          '1990': {
+            female: [
+              { name: 'Jana', weight: 1 },
+              { name: 'Julia', weight: 1 },
+            ],
+            male: [
+              { name: 'Jan', weight: 1000 },
+              { name: 'Jonas', weight: 1 },
+            ],
+          },
+        },
+      },
+    };
+
+    it('should find the birth decade at the story date', () => {
+      expect(getBirthDecade(23, '2022-09-20')).toBe(1990);
+      expect(getBirthDecade(55, '2022-09-20')).toBe(1960);
+      expect(getBirthDecade(undefined, '2022-09-20')).toBeNull();
+      expect(getBirthDecade(23, undefined)).toBeNull();
+    });
+
+    it('should use the closest decade with names for the gender', () => {
+      expect(getGenerationNamePool(DATA.names, 'm', 1950)?.[0]).toEqual({
+        name: 'Dieter',
+        weight: 1,
+      });
+      expect(getGenerationNamePool(DATA.names, 'f', 1960)?.[0]).toEqual({
+        name: 'Jana',
+        weight: 1,
+      });
+      expect(getGenerationNamePool(DATA.names, 'x', 1990)).toBeNull();
+      expect(getGenerationNamePool(TEST_DATA.names, 'f', 1990)).toBeNull();
+    });
+
+    it("should pick names of the person's generation, by weight", () => {
+      const markers: Record<string, Marker> = {
+        student: { person: 'Zahra', gender: 'f', age: 23 },
+        brother: { person: 'Ali', gender: 'm', age: 25 },
+        father: { person: 'Hassan', gender: 'm', age: 55 },
+        friend: { person: 'Sara', gender: 'f', age: 24 },
+      };
+
+      const results = translateMarkersV2(markers, DATA, 'test-story');
+
+      expect(results.brother.value).toBe('Jan');
+      expect(results.father.value).toBe('Dieter');
+      expect([results.student.value, results.friend.value].sort()).toEqual(['Jana', 'Julia']);
+    });
+
+    it('should use the flat lists without an age, story date or decade data', () => {
+      const markers: Record<string, Marker> = {
+        a: { person: 'Zahra', gender: 'f' },
+        b: { person: 'Sam', gender: 'x', age: 23 },
+      };
+
+      const results = translateMarkersV2(markers, DATA, 'test-story');
+      const undated = translateMarkersV2(
+        { c: { person: 'Zahra', gender: 'f', age: 23 } },
+        { ...DATA, storyDate: undefined },
+        'test-story'
+      );
+
+      expect(['Anna', 'Berta', 'Clara']).toContain(results.a.value);
+      expect(['Alex', 'Sam', 'Robin']).toContain(results.b.value);
+      expect(['Anna', 'Berta', 'Clara']).toContain(undated.c.value);
+    });
+
+    it('should prefer regional names over generation names', () => {
+      const markers: Record<string, Marker> = {
+        person1: { person: 'Zahra', gender: 'f', age: 23, from: 'hometown' },
+        hometown: { place: 'Saqqez', 'city-medium': true },
+      };
+
+      const results = translateMarkersV2(markers, DATA, 'test-story');
+
+      expect(['Nora', 'Nina', 'Noor']).toContain(results.person1.value);
+    });
+  });
+
+  describe('dependency-ordered resolution', () => {
+    it('should compare against a marker defined later in the story', () => {
+      const markers: Record<string, Marker> = {
+        killed: { casualties: 8500, comparedTo: 'wounded' },
+        wounded: { casualties: 1700 },
+      };
+
+      const results = translateMarkersV2(
+        markers,
+        { ...TEST_DATA, comparisonPhrases: comparisonPhrases.en },
+        'test-story'
+      );
+
+      expect(results.wounded.numericValue).toBe(200);
+      expect(results.killed.numericValue).toBe(1000);
+      expect(results.killed.comparison).toBe('more than 5 times as many');
+    });
+
+    it('should phrase comparisons to other markers in the reader language', () => {
+      const compare = (killed: number, languageCode: string) =>
+        translateMarkersV2(
+          { killed: { casualties: killed, comparedTo: 'wounded' }, wounded: { casualties: 1000 } },
+          { ...TEST_DATA, languageCode, comparisonPhrases: comparisonPhrases[languageCode] },
+          'test-story'
+        ).killed.comparison;
+
+      expect(compare(1700, 'en')).toBe('almost twice as many');
+      expect(compare(2700, 'en')).toBe('more than twice as many');
+      expect(compare(3400, 'de')).toBe('mehr als 3-mal so viele');
+      expect(compare(1200, 'en')).toBeUndefined();
+    });
+
+    it('should scale against the local city even when the city marker comes later', () => {
+      const markers: Record<string, Marker> = {
+        killed: { casualties: 1000, scope: 'city', scopeCity: 'city' },
+        city: { place: 'Tehran', 'city-large': true, population: 10000000 },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(results.city.value).toBe('Capital City');
+      expect(results.killed.numericValue).toBe(200);
+    });
+
+    it('should not recurse forever on circular aliases', () => {
+      const markers: Record<string, Marker> = {
+        a: { sameAs: 'b' },
+        b: { sameAs: 'a' },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(results.a.value).toBe('[cycle:a]');
+      expect(results.b.value).toBe('[cycle:b]');
+    });
+
+    it('should report within loops reached through from and scopeCity as cycles', () => {
+      const markers: Record<string, Marker> = {
+        person1: { person: 'Zahra', gender: 'f', from: 'square' },
+        killed: { casualties: 1000, scope: 'city', scopeCity: 'square' },
+        square: { place: 'Azadi Square', landmark: true, within: 'district' },
+        district: { place: 'District 1', landmark: true, within: 'square' },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(results.square.value).toBe('[cycle:square]');
+      expect(results.district.value).toBe('[cycle:district]');
+      expect(['Anna', 'Berta', 'Clara']).toContain(results.person1.value);
+      expect(results.killed.numericValue).toBe(118); // Scaled by country
+    });
+
+    it('should give stand-in values a fallback reason', () => {
+      const markers: Record<string, Marker> = {
+        home: { sameAs: 'missing' },
+        city: { place: 'Tehran', 'city-large': true, population: 10000000 },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(results.home).toMatchObject({
+        value: '[alias:missing]',
+        fallbackReason: "Alias target 'missing' not found",
+      });
+      expect(results.city.fallbackReason).toBeUndefined();
+    });
+  });
+
+  describe('distinct values', () => {
+    it('should give distinct people distinct names of their gender', () => {
+      const markers: Record<string, Marker> = {
+        a: { person: 'Zahra', gender: 'f' },
+        b: { person: 'Maryam', gender: 'f' },
+        c: { person: 'Fatemeh', gender: 'f' },
+        d: { person: 'Reza', gender: 'm' },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+      const women = [results.a.value, results.b.value, results.c.value];
+
+      expect([...women].sort()).toEqual(['Anna', 'Berta', 'Clara']);
+      expect(['Adam', 'Boris', 'Carl']).toContain(results.d.value);
+    });
+
+    it('should be deterministic', () => {
+      const markers: Record<string, Marker> = {
+        a: { person: 'Zahra', gender: 'f' },
+        b: { person: 'Maryam', gender: 'f' },
+      };
+
+      expect(translateMarkersV2(markers, TEST_DATA, 'test-story')).toEqual(
+        translateMarkersV2(markers, TEST_DATA, 'test-story')
+      );
+    });
+
+    it('should pick other values for a reader seed, the same ones every time', () => {
+      const markers: Record<string, Marker> = {
+        a: { person: 'Zahra', gender: 'f' },
+        b: { person: 'Reza', gender: 'm' },
+      };
+      const seeds = ['k3x9q2', 'p0w7mz', '4hd8ra', 'zt61bc'];
+      const versions = seeds.map((seed) =>
+        translateMarkersV2(markers, TEST_DATA, 'test-story', seed)
+      );
+
+      expect(translateMarkersV2(markers, TEST_DATA, 'test-story', 'k3x9q2')).toEqual(versions[0]);
+      expect(new Set(versions.map((v) => `${v.a.value} ${v.b.value}`)).size).toBeGreaterThan(1);
+    });
+
+    it('should sample names by weight when the pool has weights', () => {
+      const data: TranslationDataV2 = {
+        ...TEST_DATA,
+        names: {
+          ...TEST_DATA.names,
+          female: [
+            { name: 'Anna', weight: 1000 },
+            { name: 'Camila', community: 'hispanic' }, // Weight 1
+          ],
+        },
+      };
+      const markers: Record<string, Marker> = {
+        a: { person: 'Zahra', gender: 'f' },
+        b: { person: 'Maryam', gender: 'f' },
+      };
+
+      const results = translateMarkersV2(markers, data, 'test-story');
+      const picks = ['k3x9q2', 'p0w7mz', '4hd8ra', 'zt61bc'].map(
+        (seed) => translateMarkersV2({ a: markers.a }, data, 'test-story', seed).a.value
+      );
+
+      expect([results.a.value, results.b.value].sort()).toEqual(['Anna', 'Camila']);
+      expect(picks).toEqual(['Anna', 'Anna', 'Anna', 'Anna']);
+    });
+
+    it('should reuse names once the pool is exhausted', () => {
+      const markers: Record<string, Marker> = {
+        a: { person: 'A', gender: 'x' },
+        b: { person: 'B', gender: 'x' },
+        c: { person: 'C', gender: 'x' },
+        d: { person: 'D', gender: 'x' },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(new Set(Object.values(results).map((r) => r.value)).size).toBe(3);
+    });
+
+    it('should give distinct facilities distinct values', () => {
+      const data: TranslationDataV2 = {
+        ...TEST_DATA,
+        places: {
+          cities: [
+            {
+              ...TEST_DATA.places.cities[1],
+              prisons: ['East Prison', 'West Prison'],
+            },
+          ],
+        },
+      };
+      const markers: Record<string, Marker> = {
+        city: { place: 'Tehran', 'city-large': true },
+        evin: { place: 'Evin Prison', prison: true, within: 'city' },
+        qezel: { place: 'Qezel Hesar', prison: true, within: 'city' },
+      };
+
+      const results = translateMarkersV2(markers, data, 'test-story');
+
+      expect([results.evin.value, results.qezel.value].sort()).toEqual([
+        'East Prison',
+        'West Prison',
+      ]);
+    });
+
+    it('should keep aliases on their target value', () => {
+      const markers: Record<string, Marker> = {
+        a: { person: 'Zahra', gender: 'f' },
+        b: { person: 'Maryam', gender: 'f' },
+        mother: { sameAs: 'a' },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(results.mother.value).toBe(results.a.value);
+      expect(results.b.value).not.toBe(results.a.value);
+    });
+  });
+
+  describe('source contexts', () => {
+    const BELARUS: SourceContext = {
+      code: 'BY',
+      name: 'Belarus',
+      population: 9200000,
+      currency: 'BYN',
+      'currency-name': 'Belarusian ruble',
+      'units-per-usd': 3.1,
+      cities: [],
+    };
+
+    it('should scale against the source population', () => {
+      const results = translateMarkersV2(
+        { detained: { number: 920, scaled: true } },
+        { ...TEST_DATA, source: BELARUS },
+        'test-story'
+      );
+
+      expect(results.detained.numericValue).toBe(1000);
+      expect(explain(results.detained.explanation)).toBe(
+        'Scaled from Belarus (920) to XX by country population: 920 × (10.0M / 9.2M) = 1,000'
+      );
+    });
+
+    it('should convert from the source currency', () => {
+      const results = translateMarkersV2(
+        // Currency markers aren't part of the Marker union
+        { bail: { currency: 1000 } as unknown as Marker },
+        { ...TEST_DATA, source: BELARUS, exchangeRate: getExchangeRate(0.8, BELARUS) },
+        'test-story'
+      );
+
+      expect(results.bail.value).toBe('€258');
+      expect(results.bail.original).toBe('1,000 Belarusian ruble');
+    });
+
+    it('should use source city populations for city-scoped casualties', () => {
+      const markers: Record<string, Marker> = {
+        city: { place: 'Tehran', 'city-large': true },
+        killed: { casualties: 850, scope: 'city', scopeCity: 'city' },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(results.killed.numericValue).toBe(200);
+      expect(explain(results.killed.explanation)).toBe(
+        'Scaled from Tehran, Iran (850) to Capital City by city population: 850 × (2.0M / 8.5M) = 200'
+      );
+    });
+
+    it('should fall back to country scaling without a source city population', () => {
+      const markers: Record<string, Marker> = {
+        village: { place: 'Small Village', 'city-large': true },
+        killed: { casualties: 850, scope: 'city', scopeCity: 'village' },
+      };
+
+      const results = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(results.killed.numericValue).toBe(100);
+      expect(explain(results.killed.explanation)).toContain('to XX by country population');
+    });
+  });
+
+  describe('distances', () => {
+    // Cities on the equator, one degree of longitude is ~111 km
+    const city = (name: string, lon: number) => ({
+      name,
+      population: 100000,
+      province: name,
+      coordinates: { lat: 0, lon },
+    });
+    const town = (name: string, lon: number) => ({
+      id: name.toLowerCase(),
+      name,
+      size: 'medium' as const,
+      capital: false,
+      population: 100000,
+      coordinates: { lat: 0, lon },
+    });
+    const data: TranslationDataV2 = {
+      ...TEST_DATA,
+      source: { ...IRAN, cities: [city('Tehran', 0), city('Karaj', 1), city('Zahedan', 4)] },
+      places: {
+        cities: [
+          {
+            id: 'capital',
+            name: 'Capital',
+            size: 'large',
+            capital: true,
+            population: 2000000,
+            coordinates: { lat: 0, lon: 0 },
+          },
+          town('Twoville', 2),
+          town('Fiveville', 5),
+          town('Eightville', 8),
+        ],
+      },
+    };
+    const places: Record<string, Marker> = {
+      capital: { place: 'Tehran', 'city-large': true },
+      near: { place: 'Karaj', 'city-medium': true, distanceFrom: 'capital' },
+    };
+
+    it('should pick the city at the closest relative distance', () => {
+      const results = translateMarkersV2(places, data, 'test-story');
+
+      expect(results.capital.value).toBe('Capital');
+      expect(results.near.value).toBe('Twoville');
+      expect(explain(results.near.explanation)).toContain(
+        'Twoville is 222 km from Capital (25% of 890 km)'
+      );
+    });
+
+    it('should be deterministic and keep places distinct', () => {
+      const markers: Record<string, Marker> = {
+        ...places,
+        alsoNear: { place: 'Fardis', 'city-medium': true, distanceFrom: 'capital' },
+      };
+
+      const first = translateMarkersV2(markers, data, 'test-story');
+      const second = translateMarkersV2(markers, data, 'test-story');
+
+      expect(first.alsoNear.value).not.toBe(first.near.value);
+      expect(second.alsoNear.value).toBe(first.alsoNear.value);
+    });
+
+    it('should fall back to size selection without coordinates', () => {
+      const results = translateMarkersV2(places, TEST_DATA, 'test-story');
+
+      expect(results.near.value).toBe('Northtown');
+      expect(results.near.explanation).toBeUndefined();
+    });
+
+    it('should scale distances between relocated places', () => {
+      const results = translateMarkersV2(
+        {
+          ...places,
+          road: { distance: 100, scaled: true, from: 'capital', to: 'near', travel: 'driving' },
+        },
+        data,
+        'test-story'
+      );
+
+      expect(results.road.value).toBe('200 km (2.5 hours)');
+      expect(results.road.original).toBe('100 km');
+      expect(explain(results.road.explanation)).toContain('between Capital and Twoville (222 km)');
+    });
+
+    it('should scale by country span without from/to places', () => {
+      const results = translateMarkersV2(
+        { road: { distance: 100, scaled: true } },
+        data,
+        'test-story'
+      );
+
+      expect(results.road.value).toBe('200 km');
+      expect(explain(results.road.explanation)).toContain(
+        'by country span: XX (890 km) vs. Iran (445 km)'
+      );
+    });
+
+    it('should use miles and walking times where appropriate', () => {
+      const results = translateMarkersV2(
+        { walk: { distance: 2, travel: 'walking' }, trip: { distance: 100 } },
+        { ...data, country: 'US' },
+        'test-story'
+      );
+
+      expect(results.walk.value).toBe('1 mi (24 minutes)');
+      expect(results.trip.value).toBe('62 mi');
+      expect(results.trip.explanation).toBeUndefined();
+    });
+  });
+
+  describe('locale-aware formatting', () => {
+    const markers: Record<string, Marker> = {
+      people: { number: 12345, scaled: true },
+      // Currency markers aren't part of the Marker union yet
+      fine: { currency: 84000000 } as unknown as Marker,
+    };
+
+    it('should format numbers for the reader language and country', () => {
+      const results = translateMarkersV2(
+        markers,
+        { ...TEST_DATA, country: 'DE', languageCode: 'de' },
+        'test-story'
+      );
+
+      expect(results.people.value).toBe('1.452');
+      expect(results.people.original).toBe('12.345');
+      expect(explain(results.people.explanation, 'de', 'DE')).toContain('(10,0M / 85,0M) = 1.452');
+    });
+
+    it('should format currency with the ISO currency code when known', () => {
+      const withCurrency = translateMarkersV2(
+        markers,
+        { ...TEST_DATA, country: 'BE', languageCode: 'de', currency: 'EUR' },
+        'test-story'
+      );
+      const withSymbol = translateMarkersV2(markers, TEST_DATA, 'test-story');
+
+      expect(withCurrency.fine.value.replace(/\u00a0/g, ' ')).toBe('1.680 €');
+      expect(withSymbol.fine.value).toBe('€1,680');
+    });
+  });
+
+  describe('localized comparisons', () => {
+    const lidice: ComparableEvent = {
+      id: 'lidice',
+      name: 'Lidice massacre',
+      fullName: 'Nazi massacre at Lidice',
+      casualties: 340,
+      category: 'massacre',
+      year: 1942,
+      localizedNames: { cs: 'masakr v Lidicích' },
+      localizedCases: { cs: { genitive: 'masakru v Lidicích' } },
+    };
+
+    it('should keep the English phrasing and articles', () => {
+      expect(generateComparisonText(340, lidice, comparisonPhrases.en).text).toBe(
+        '(approximately Nazi massacre at Lidice)'
+      );
+      expect(generateComparisonText(1020, lidice, comparisonPhrases.en).text).toBe(
+        '(three times the Lidice massacre)'
+      );
+      expect(generateComparisonText(5100, lidice, comparisonPhrases.en).text).toBe(
+        '(15 times the Lidice massacre)'
+      );
+    });
+
+    it('should use grammatical cases from the event when the phrase asks for one', () => {
+      expect(generateComparisonText(100, lidice, comparisonPhrases.cs, 'cs', 'CZ').text).toBe(
+        '(třetina masakru v Lidicích)'
+      );
+      expect(generateComparisonText(680, lidice, comparisonPhrases.cs, 'cs', 'CZ').text).toBe(
+        '(dvakrát více než masakr v Lidicích)'
+      );
+    });
+
+    it('should fall back to the plain name when the case form is missing', () => {
+      expect(generateComparisonText(170, lidice, comparisonPhrases.pl, 'pl', 'PL').text).toBe(
+        '(połowa Nazi massacre at Lidice)'
+      );
+    });
+
+    it('should localize the explanation with plural forms', () => {
+      const { explanation } = generateComparisonText(
+        1360,
+        lidice,
+        comparisonPhrases.cs,
+        'cs',
+        'CZ'
+      );
+
+      expect(explain(explanation, 'cs', 'CZ')?.replace(/\u00a0/g, ' ')).toBe(
+        'Srovnání: 1 360 obětí vs. masakr v Lidicích (340 obětí v roce 1942) = 4,00× více'
+      );
+    });
+
+    it('should only add comparisons when phrases are available', () => {
+      const markers: Record<string, Marker> = {
+        killed: { casualties: 8500, comparable: 'massacre' },
+      };
+      const data = { ...TEST_DATA, comparableEvents: [lidice] };
+
+      expect(translateMarkersV2(markers, data, 'test-story').killed.comparison).toBeUndefined();
+      expect(
+        translateMarkersV2(
+          markers,
+          { ...data, comparisonPhrases: comparisonPhrases.en },
+          'test-story'
+        ).killed.comparison
+      ).toBe('(three times the Lidice massacre)');
+    });
+  });
+});
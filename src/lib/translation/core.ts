@@ -5,33 +5,25 @@
  * - Hierarchical place relationships (landmarks within cities)
  * - Casualties with automatic comparable events
  * - Pure population scaling (no arbitrary factors)
+ * - Source context per story (population and currency of the country it comes from)
  * - Alias support (reuse translations)
  * - Context-aware translation (resolved values cache)
+ * - Dependency-ordered resolution (see resolver.ts)
+ * - Per-type resolvers from the marker registry (see markers/)
  */
 
-import type { Marker, DateMarker, TimeMarker } from '../types/index.ts';
-import {
-  isPersonMarker,
-  isPlaceMarker,
-  isNumberMarker,
-  isCasualtiesMarker,
-  isAliasMarker,
-} from '../types/index.ts';
-import { getPlaceFacilityTypes, getNestedValue } from './schema-helpers.ts';
-
-/**
- * Deterministic random number generator (seeded)
- * Ensures same story + country always generates same values
- */
-export function seededRandom(seed: string): number {
-  let hash = 0;
-  for (let i = 0; i < seed.length; i++) {
-    const char = seed.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash % 1000) / 1000;
-}
+import type { Marker, CountryNames, SourceContext, Coordinates } from '../types/index.ts';
+import { isPlaceMarker, isAliasMarker } from '../types/index.ts';
+import { planMarkerResolution } from './resolver.ts';
+import type { MarkerResolutionError } from './resolver.ts';
+import { getMarkerDefinition } from './markers/index.ts';
+import type { MarkerResolveContext } from './markers/index.ts';
+import type { Explanation } from './explanations.ts';
+import { findCityByName } from './markers/place.ts';
+import { formatNumberLocalized } from '../utils/number-locale.ts';
+import { resolveSourceCity, resolveSourceCoordinates } from './source-context.ts';
+import { createStreams, randomIndex } from '../utils/random.ts';
+import type { Random } from '../utils/random.ts';
 
 /**
  * Comparable event data structure
@@ -45,6 +37,39 @@ export interface ComparableEvent {
   year: number;
   significance?: string;
   localizedNames?: Record<string, string>; // Language code -> localized name
+  localizedCases?: Record<string, Record<string, string>>; // Language code -> case -> inflected name
+}
+
+/**
+ * Localized phrasing for casualty comparisons (one entry of comparison-phrases.yaml)
+ *
+ * Templates use {event} for the event name, {event:<case>} for an inflected
+ * form (see ComparableEvent.localizedCases) and {n} for the multiplier.
+ * Articles are part of the templates.
+ */
+export interface ComparisonPhrases {
+  approximately: string;
+  fraction: {
+    third: string;
+    half: string;
+    'two-thirds': string;
+  };
+  multiple: {
+    twice: string;
+    thrice: string;
+    times: string;
+  };
+  compared: {
+    'almost-twice': string; // 1.5-2x
+    twice: string;
+    times: string; // Uses {n}
+  };
+  casualties: Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }; // Uses {count}
+  explanation: {
+    text: string; // Uses {scaled}, {event}, {eventCasualties}, {year}, {ratio}
+    more: string; // Uses {ratio}
+    less: string; // Uses {percent}
+  };
 }
 
 /**
@@ -56,6 +81,7 @@ export interface CityData {
   size: 'small' | 'medium' | 'large';
   capital: boolean;
   population: number;
+  coordinates?: Coordinates;
   region?: string;
   landmarks?: {
     protest?: string[];
@@ -82,17 +108,17 @@ export interface PlacesDataV2 {
  */
 export interface TranslationDataV2 {
   country: string;
-  names: {
-    male: string[];
-    female: string[];
-    neutral: string[];
-  };
+  names: CountryNames;
   places: PlacesDataV2;
   population: number;
+  source: SourceContext; // Country the story comes from (population, currency, cities)
   currencySymbol: string;
-  rialToLocal: number;
+  currency?: string; // ISO 4217 code of the local currency (e.g., 'EUR')
+  exchangeRate: number; // Local currency units per unit of the source currency
   comparableEvents?: ComparableEvent[];
-  languageCode?: string; // Language code for localized comparison text
+  comparisonPhrases?: ComparisonPhrases; // Comparison phrasing for languageCode
+  languageCode?: string; // Language code for localized comparison text and number formatting
+  storyDate?: string; // ISO date of the story (ages are as of then)
 }
 
 /**
@@ -102,6 +128,8 @@ export interface TranslationContext {
   markers: Record<string, Marker>;
   resolved: Map<string, TranslationResult>;
   storyId: string;
+  assigned: Map<string, Set<string>>; // Values taken per category, so distinct markers stay distinct
+  readerSeed?: string; // A reader's reroll - varies every seeded choice (TranslationInput.seed)
 }
 
 /**
@@ -111,172 +139,160 @@ export interface TranslationResult {
   value: string;
   original: string | null;
   comparison?: string; // For casualties with comparable events
-  comparisonExplanation?: string; // Math explanation for comparison
-  explanation?: string; // Math explanation for scaled values
+  comparisonExplanation?: Explanation; // Math behind the comparison
+  explanation?: Explanation; // Math behind scaled values
+  numericValue?: number; // Unformatted value for numbers and casualties (used by comparedTo)
+  fallbackReason?: string; // Why value is a stand-in (the marker couldn't be resolved)
 }
 
 /**
- * Deterministic selection from array using seed
+ * Deterministic selection from array using a seeded generator
  */
-function selectFromArray<T>(items: T[], seed: string): T {
-  // Use seededRandom to match translation script behavior
-  const randomValue = seededRandom(seed);
-  const index = Math.floor(randomValue * items.length);
-  return items[index];
+function selectFromArray<T>(items: T[], random: Random): T {
+  return items[randomIndex(items.length, random)];
 }
 
 /**
- * Find city by name in places data
+ * Deterministic selection that avoids values already assigned in a category
+ * Starts at the seeded index and walks forward to the first free value; when
+ * every value is taken the seeded pick is reused.
  */
-function findCityByName(placesData: PlacesDataV2, cityName: string): CityData | null {
-  for (const city of placesData.cities || []) {
-    if (city.name === cityName) {
-      return city;
+function selectDistinctFromArray<T>(
+  items: T[],
+  random: Random,
+  category: string,
+  valueOf: (item: T) => string,
+  context: TranslationContext
+): T {
+  let taken = context.assigned.get(category);
+  if (!taken) {
+    taken = new Set();
+    context.assigned.set(category, taken);
+  }
+
+  const start = randomIndex(items.length, random);
+  let selected = items[start];
+  for (let offset = 0; offset < items.length; offset++) {
+    const item = items[(start + offset) % items.length];
+    if (!taken.has(valueOf(item))) {
+      selected = item;
+      break;
     }
   }
-  return null;
+
+  taken.add(valueOf(selected));
+  return selected;
 }
 
 /**
- * Find closest comparable event by casualties
- * Returns null if no reasonably close match is found (within 3x range)
+ * Weighted deterministic selection that avoids values already assigned in a category
+ * Samples the free values by weight; when every value is taken it samples them all.
  */
-function findClosestEvent(
-  events: ComparableEvent[],
-  casualties: number,
-  category: string | null
-): ComparableEvent | null {
-  if (events.length === 0) return null;
-
-  let candidates = events;
-
-  // Filter by category if specified
-  if (category) {
-    const filtered = events.filter((e) => e.category === category);
-    if (filtered.length > 0) {
-      candidates = filtered;
-    }
+function selectWeightedFromArray<T>(
+  items: T[],
+  random: Random,
+  category: string,
+  weightOf: (item: T) => number,
+  valueOf: (item: T) => string,
+  context: TranslationContext
+): T {
+  let taken = context.assigned.get(category);
+  if (!taken) {
+    taken = new Set();
+    context.assigned.set(category, taken);
   }
 
-  // Find closest by casualties and return it
-  // We always show the closest match - the comparison text will handle large multipliers
-  const closest = candidates.reduce((best, current) => {
-    const bestDiff = Math.abs(best.casualties - casualties);
-    const currentDiff = Math.abs(current.casualties - casualties);
-    return currentDiff < bestDiff ? current : best;
-  });
+  const free = items.filter((item) => !taken.has(valueOf(item)));
+  const pool = free.length > 0 ? free : items;
+  const total = pool.reduce((sum, item) => sum + weightOf(item), 0);
+
+  let remaining = random() * total;
+  let selected = pool[pool.length - 1];
+  for (const item of pool) {
+    remaining -= weightOf(item);
+    if (remaining < 0) {
+      selected = item;
+      break;
+    }
+  }
 
-  return closest;
+  taken.add(valueOf(selected));
+  return selected;
 }
 
 /**
- * Get localized multiplier phrase
+ * Resolve a marker once and cache it in the context
  */
-function getLocalizedMultiplier(
-  multiplier: number,
-  languageCode: string
-): { phrase: string; needsArticle: boolean } {
-  const formatted = multiplier.toLocaleString();
-
-  // Language-specific translations
-  const translations: Record<
-    string,
-    { twice: string; thrice: string; times: (n: string) => string; needsArticle: boolean }
-  > = {
-    en: { twice: 'twice', thrice: 'three times', times: (n) => `${n} times`, needsArticle: true },
-    cs: {
-      twice: 'dvakrát více než',
-      thrice: 'třikrát více než',
-      times: (n) => `${n}krát více než`,
-      needsArticle: false,
-    },
-    de: { twice: 'zweimal', thrice: 'dreimal', times: (n) => `${n}-mal`, needsArticle: false },
-    fr: {
-      twice: 'deux fois',
-      thrice: 'trois fois',
-      times: (n) => `${n} fois`,
-      needsArticle: false,
-    },
-    es: {
-      twice: 'el doble de',
-      thrice: 'el triple de',
-      times: (n) => `${n} veces`,
-      needsArticle: false,
-    },
-    it: {
-      twice: 'il doppio di',
-      thrice: 'il triplo di',
-      times: (n) => `${n} volte`,
-      needsArticle: false,
-    },
-    nl: { twice: 'twee keer', thrice: 'drie keer', times: (n) => `${n} keer`, needsArticle: false },
-  };
-
-  const lang = translations[languageCode] || translations['en'];
-
-  let phrase: string;
-  if (multiplier === 2) {
-    phrase = lang.twice;
-  } else if (multiplier === 3) {
-    phrase = lang.thrice;
-  } else {
-    phrase = lang.times(formatted);
+function ensureResolved(
+  key: string,
+  data: TranslationDataV2,
+  context: TranslationContext
+): TranslationResult | null {
+  if (!context.resolved.has(key)) {
+    const marker = context.markers[key];
+    if (!marker) return null;
+    context.resolved.set(key, translateMarkerV2(key, marker, data, context));
   }
-
-  return { phrase, needsArticle: lang.needsArticle };
+  return context.resolved.get(key)!;
 }
 
 /**
- * Generate comparison text for casualties
+ * Find the local city a place marker resolves to
+ * Follows aliases and 'within' parents, so a landmark reports the city it sits in
+ * @returns null for cycles (reported by resolveMarkersInOrder)
  */
-function generateComparisonText(
-  scaledCasualties: number,
-  event: ComparableEvent,
-  languageCode: string = 'en'
-): { text: string; explanation: string } {
-  const exactRatio = scaledCasualties / event.casualties;
-
-  // Use localized event name if available, otherwise fall back to English
-  const eventName = (event.localizedNames?.[languageCode] || event.name).trim();
-
-  let comparisonText: string;
+function resolveLocalCity(
+  key: string,
+  data: TranslationDataV2,
+  context: TranslationContext,
+  visited: Set<string> = new Set()
+): CityData | null {
+  const marker = context.markers[key];
+  if (!marker || visited.has(key)) return null;
+  visited.add(key);
 
-  // Within 15% margin (0.85-1.15x) - say "approximately"
-  if (exactRatio >= 0.85 && exactRatio <= 1.15) {
-    comparisonText = `approximately ${event.fullName || eventName}`;
-  }
-  // Fractional comparisons (less than the event)
-  else if (exactRatio < 0.85) {
-    // Determine fraction phrase
-    let fractionPhrase: string;
-    if (exactRatio <= 0.35) {
-      fractionPhrase = languageCode === 'en' ? 'a third of' : 'třetina'; // Add more languages as needed
-    } else if (exactRatio <= 0.55) {
-      fractionPhrase = languageCode === 'en' ? 'half of' : 'polovina';
-    } else {
-      fractionPhrase = languageCode === 'en' ? 'two-thirds of' : 'dvě třetiny';
-    }
-    comparisonText = `${fractionPhrase} ${event.fullName || eventName}`;
+  if (isAliasMarker(marker)) {
+    return resolveLocalCity(marker.sameAs, data, context, visited);
   }
-  // Multiple times more (greater than the event)
-  else {
-    const multiplier = Math.round(exactRatio);
-    // Get localized multiplier phrase
-    const { phrase, needsArticle } = getLocalizedMultiplier(multiplier, languageCode);
-
-    // Build comparison text with or without article
-    comparisonText = needsArticle ? `${phrase} the ${eventName}` : `${phrase} ${eventName}`;
+  if (!isPlaceMarker(marker)) return null;
+  if (marker.within) {
+    return resolveLocalCity(marker.within, data, context, visited);
   }
 
-  // Wrap in brackets
-  const text = `(${comparisonText})`;
-
-  // Generate explanation (always in English for consistency)
-  const ratioText =
-    exactRatio >= 1 ? `${exactRatio.toFixed(2)}x more` : `${(exactRatio * 100).toFixed(0)}% of`;
-  const explanation = `Comparison: ${scaledCasualties.toLocaleString()} casualties vs. ${event.name} (${event.casualties.toLocaleString()} casualties in ${event.year}) = ${ratioText}`;
+  const result = ensureResolved(key, data, context);
+  return result ? findCityByName(data.places, result.value) : null;
+}
 
-  return { text, explanation };
+/**
+ * Build the context a marker type's resolver works with
+ */
+function createResolveContext(
+  key: string,
+  data: TranslationDataV2,
+  context: TranslationContext
+): MarkerResolveContext {
+  const seed = context.readerSeed
+    ? `${context.storyId}-${key}-${data.country}-${context.readerSeed}`
+    : `${context.storyId}-${key}-${data.country}`;
+  const stream = createStreams(seed);
+  return {
+    key,
+    data,
+    markers: context.markers,
+    random: (name) => stream(name)(),
+    select: (items) => selectFromArray(items, stream('select')),
+    selectDistinct: (items, category, valueOf = String) =>
+      selectDistinctFromArray(items, stream('select'), category, valueOf, context),
+    selectWeighted: (items, category, weightOf, valueOf = String) =>
+      selectWeightedFromArray(items, stream('select'), category, weightOf, valueOf, context),
+    assigned: (category) => context.assigned.get(category) ?? new Set(),
+    format: (value, options) =>
+      formatNumberLocalized(value, data.languageCode, data.country, options),
+    resolve: (target) => ensureResolved(target, data, context),
+    localCity: (target) => resolveLocalCity(target, data, context),
+    sourceCity: (target) => resolveSourceCity(context.markers, target, data.source),
+    sourceCoordinates: (target) => resolveSourceCoordinates(context.markers, target, data.source),
+  };
 }
 
 /**
@@ -288,376 +304,84 @@ export function translateMarkerV2(
   data: TranslationDataV2,
   context: TranslationContext
 ): TranslationResult {
-  const seed = `${context.storyId}-${key}-${data.country}`;
+  const definition = getMarkerDefinition(marker);
 
-  // Handle aliases first - reuse previous translation
-  if (isAliasMarker(marker)) {
-    const targetKey = marker.sameAs;
-    if (context.resolved.has(targetKey)) {
-      return context.resolved.get(targetKey)!;
-    }
-    // Resolve target first
-    const targetMarker = context.markers[targetKey];
-    if (targetMarker) {
-      const result = translateMarkerV2(targetKey, targetMarker, data, context);
-      context.resolved.set(targetKey, result);
-      return result;
-    }
-    // Target not found - return error
+  // Fallback for unknown and structural types
+  if (!definition?.resolve) {
     return {
-      value: `[alias:${targetKey}]`,
+      value: `[${key}]`,
       original: null,
+      fallbackReason: 'Unknown marker type',
     };
   }
 
-  // Person
-  if (isPersonMarker(marker)) {
-    const nameList =
-      marker.gender === 'm'
-        ? data.names.male
-        : marker.gender === 'f'
-          ? data.names.female
-          : data.names.neutral;
-
-    // TODO: Regional names if 'from' specified
-    // This would require regional name data in TranslationDataV2
-
-    return {
-      value: selectFromArray(nameList, seed),
-      original: marker.person,
-    };
-  }
-
-  // Place
-  if (isPlaceMarker(marker)) {
-    // Check if this place has a parent
-    if (marker.within) {
-      // Resolve parent if not already resolved
-      if (!context.resolved.has(marker.within)) {
-        const parentMarker = context.markers[marker.within];
-        if (parentMarker) {
-          const parentResult = translateMarkerV2(marker.within, parentMarker, data, context);
-          context.resolved.set(marker.within, parentResult);
-        }
-      }
-
-      // Now get the resolved parent
-      if (context.resolved.has(marker.within)) {
-        const parentPlace = context.resolved.get(marker.within)!;
-        const cityName = parentPlace.value;
-
-        // Find the city data
-        const cityData = findCityByName(data.places, cityName);
-        if (cityData) {
-          // Determine subcategory
-          let items: string[] = [];
-
-          // Special case: generic landmark (any type)
-          if (marker.landmark && cityData.landmarks) {
-            const allLandmarks = Object.values(cityData.landmarks)
-              .flat()
-              .filter((x): x is string => typeof x === 'string');
-            items = allLandmarks;
-          } else {
-            // Schema-driven facility matching
-            const facilityTypes = getPlaceFacilityTypes();
-            for (const { property, dataPath } of facilityTypes) {
-              const markerHasType = (marker as any)[property] === true;
-              const cityHasData = getNestedValue(cityData, dataPath);
-
-              if (markerHasType && cityHasData && Array.isArray(cityHasData)) {
-                items = cityHasData;
-                break;
-              }
-            }
-          }
-
-          if (items.length > 0) {
-            return {
-              value: selectFromArray(items, seed),
-              original: marker.place,
-            };
-          }
-        }
-      }
-    }
-
-    // No parent or parent not resolved - use city selection
-    const size = marker['city-large']
-      ? 'large'
-      : marker['city-medium']
-        ? 'medium'
-        : marker['city-small']
-          ? 'small'
-          : null;
-
-    if (size && data.places.cities) {
-      // Select from cities of this size, respecting capital requirement
-      const cities = data.places.cities.filter(
-        (c) => c.size === size && (!marker.capital || c.capital)
-      );
-      if (cities.length > 0) {
-        const selectedCity = selectFromArray(cities, seed);
-        return {
-          value: selectedCity.name,
-          original: marker.place,
-        };
-      }
-    }
-
-    // If no specific place found, try to find ANY city with the required landmark/facility
-    if (marker['landmark-protest']) {
-      const citiesWithLandmark = data.places.cities.filter(
-        (c) => c.landmarks?.protest && c.landmarks.protest.length > 0
-      );
-      if (citiesWithLandmark.length > 0) {
-        const city = selectFromArray(citiesWithLandmark, seed);
-        return {
-          value: selectFromArray(city.landmarks!.protest!, seed),
-          original: marker.place,
-        };
-      }
-    }
-
-    if (marker['landmark-monument']) {
-      const citiesWithLandmark = data.places.cities.filter(
-        (c) => c.landmarks?.monument && c.landmarks.monument.length > 0
-      );
-      if (citiesWithLandmark.length > 0) {
-        const city = selectFromArray(citiesWithLandmark, seed);
-        return {
-          value: selectFromArray(city.landmarks!.monument!, seed),
-          original: marker.place,
-        };
-      }
-    }
-
-    if (marker.university) {
-      const citiesWithUniversities = data.places.cities.filter(
-        (c) => c.universities && c.universities.length > 0
-      );
-      if (citiesWithUniversities.length > 0) {
-        const city = selectFromArray(citiesWithUniversities, seed);
-        return {
-          value: selectFromArray(city.universities!, seed),
-          original: marker.place,
-        };
-      }
-    }
-
-    if (marker['government-facility']) {
-      const citiesWithFacilities = data.places.cities.filter(
-        (c) => c['government-facilities'] && c['government-facilities'].length > 0
-      );
-      if (citiesWithFacilities.length > 0) {
-        const city = selectFromArray(citiesWithFacilities, seed);
-        return {
-          value: selectFromArray(city['government-facilities']!, seed),
-          original: marker.place,
-        };
-      }
-    }
+  return definition.resolve(marker, createResolveContext(key, data, context));
+}
 
-    // Last resort fallback - return original
-    return {
-      value: marker.place,
-      original: null,
-    };
-  }
+/**
+ * Source, image and paragraph-break markers are structural - they aren't translated
+ */
+function isStructuralMarker(marker: Marker): boolean {
+  return getMarkerDefinition(marker)?.structural === true;
+}
 
-  // Number
-  if (isNumberMarker(marker)) {
-    let value = marker.number;
-    let explanation: string | undefined = undefined;
-
-    // Population scaling (optional, author-controlled)
-    if (marker.scaled) {
-      const iranPop = 85000000;
-      const ratio = data.population / iranPop;
-      const scaleFactor = marker.scaleFactor ?? 1.0; // Default to pure ratio
-      value = Math.round(value * ratio * scaleFactor);
-
-      // Generate explanation
-      const countryName = data.country;
-      explanation = `Scaled from Iran (${marker.number.toLocaleString()}) to ${countryName} by population ratio: ${marker.number.toLocaleString()} × (${(data.population / 1000000).toFixed(1)}M / ${(iranPop / 1000000).toFixed(1)}M)${scaleFactor !== 1.0 ? ` × ${scaleFactor}` : ''} = ${value.toLocaleString()}`;
-    }
+/**
+ * Resolve every marker in the context in dependency order
+ * Markers caught in a cycle get a placeholder value instead of recursing forever
+ */
+export function resolveMarkersInOrder(
+  data: TranslationDataV2,
+  context: TranslationContext
+): MarkerResolutionError[] {
+  const plan = planMarkerResolution(context.markers);
 
-    // Variance
-    if (marker.variance) {
-      const variance = marker.variance;
-      // Simple random from seed
-      const rand =
-        (Math.abs(seed.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0)) % 1000) / 1000;
-      const adjustment = Math.floor((rand - 0.5) * 2 * variance);
-      value += adjustment;
+  for (const key of plan.cyclic) {
+    if (!context.resolved.has(key)) {
+      context.resolved.set(key, {
+        value: `[cycle:${key}]`,
+        original: null,
+        fallbackReason: 'Part of a circular marker reference',
+      });
     }
-
-    return {
-      value: value.toLocaleString(),
-      original: marker.number.toLocaleString(),
-      explanation,
-    };
   }
 
-  // Casualties (NEW)
-  if (isCasualtiesMarker(marker)) {
-    // Step 1: Determine the population to scale against
-    let targetPopulation = data.population; // Default: country population
-    let sourcePopulation = 85000000; // Iran's population
-    let scopeType = 'country';
-    let scopeName = data.country;
-
-    if (marker.scope === 'city' && marker.scopeCity) {
-      // Scale against city population instead
-      const cityMarker = context.markers[marker.scopeCity];
-      if (cityMarker && 'population' in cityMarker && typeof cityMarker.population === 'number') {
-        targetPopulation = cityMarker.population;
-        sourcePopulation = cityMarker.population; // Use same city's population as source
-        scopeType = 'city';
-
-        // Also check if we've resolved the city to get its translated population
-        if (context.resolved.has(marker.scopeCity)) {
-          const resolvedCity = context.resolved.get(marker.scopeCity);
-          // Try to find the translated city's population from places data
-          const cityName = resolvedCity?.value;
-          if (cityName) {
-            scopeName = cityName;
-            const translatedCity = data.places.cities?.find((c) => c.name === cityName);
-            if (translatedCity?.population) {
-              targetPopulation = translatedCity.population;
-            }
-          }
-        }
-      }
+  for (const key of plan.order) {
+    if (!isStructuralMarker(context.markers[key])) {
+      ensureResolved(key, data, context);
     }
-
-    // Step 2: Scale to local context - pure population ratio
-    const scaledValue = Math.round(marker.casualties * (targetPopulation / sourcePopulation));
-
-    // Generate explanation for scaling
-    const iranPop = marker.scope === 'city' ? sourcePopulation : 85000000;
-    const explanation = `Scaled from Iran (${marker.casualties.toLocaleString()}) to ${scopeName} by ${scopeType} population: ${marker.casualties.toLocaleString()} × (${(targetPopulation / 1000000).toFixed(1)}M / ${(iranPop / 1000000).toFixed(1)}M) = ${scaledValue.toLocaleString()}`;
-
-    // Step 3: Find comparable event using SCALED value
-    let comparison: string | undefined = undefined;
-    let comparisonExplanation: string | undefined = undefined;
-    if (marker.comparable && data.comparableEvents && data.comparableEvents.length > 0) {
-      const category = marker.comparable === 'any' ? null : marker.comparable;
-      const event = findClosestEvent(data.comparableEvents, scaledValue, category);
-
-      if (event) {
-        const result = generateComparisonText(scaledValue, event, data.languageCode || 'en');
-        comparison = result.text;
-        comparisonExplanation = result.explanation;
-      }
-    }
-
-    // Step 4: Handle comparisons to other markers
-    if (marker.comparedTo && context.resolved.has(marker.comparedTo)) {
-      const referenceResult = context.resolved.get(marker.comparedTo)!;
-      const referenceValue = parseInt(referenceResult.value);
-      const ratio = scaledValue / referenceValue;
-
-      if (ratio > 2) {
-        comparison = `more than ${Math.round(ratio)} times`;
-        comparisonExplanation = `Comparison: ${scaledValue.toLocaleString()} vs. ${referenceValue.toLocaleString()} = ${Math.round(ratio)}x more`;
-      } else if (ratio > 1.5) {
-        comparison = 'more than twice as many';
-        comparisonExplanation = `Comparison: ${scaledValue.toLocaleString()} vs. ${referenceValue.toLocaleString()} = ${ratio.toFixed(1)}x more`;
-      }
-    }
-
-    return {
-      value: scaledValue.toLocaleString(),
-      original: marker.casualties.toLocaleString(),
-      comparison,
-      comparisonExplanation,
-      explanation,
-    };
   }
 
-  // Date
-  if ('date' in marker) {
-    return {
-      value: (marker as DateMarker).date,
-      original: null, // Dates don't show strikethrough
-    };
-  }
-
-  // Time
-  if ('time' in marker) {
-    return {
-      value: (marker as TimeMarker).time,
-      original: null,
-    };
-  }
-
-  // Text markers (chants, quotes, etc.)
-  if ('text' in marker && typeof (marker as any).text === 'string') {
-    return {
-      value: (marker as any).text,
-      original: null,
-    };
-  }
-
-  // Occupation markers (jobs, professions)
-  if ('occupation' in marker && typeof (marker as any).occupation === 'string') {
-    return {
-      value: (marker as any).occupation,
-      original: null,
-    };
-  }
-
-  // Currency markers
-  if ('currency' in marker && typeof (marker as any).currency === 'number') {
-    const amount = (marker as any).currency;
-    // Convert from Iranian Rial to local currency
-    const localAmount = Math.round(amount * data.rialToLocal);
-    return {
-      value: `${data.currencySymbol}${localAmount.toLocaleString()}`,
-      original: `${amount.toLocaleString()} Rial`,
-    };
-  }
-
-  // Fallback for unknown types
-  return {
-    value: `[${key}]`,
-    original: null,
-  };
+  return plan.errors;
 }
 
 /**
  * Translate all markers in a story
+ * @param readerSeed - A reader's reroll (omit for the country's default version)
  */
 export function translateMarkersV2(
   markers: Record<string, Marker>,
   data: TranslationDataV2,
-  storyId: string
+  storyId: string,
+  readerSeed?: string
 ): Record<string, TranslationResult> {
   const context: TranslationContext = {
     markers,
     resolved: new Map(),
     storyId,
+    assigned: new Map(),
+    readerSeed,
   };
 
+  resolveMarkersInOrder(data, context);
+
   const results: Record<string, TranslationResult> = {};
 
   for (const [key, marker] of Object.entries(markers)) {
     // Skip source and image markers (handled separately)
-    if (
-      'type' in marker &&
-      (marker.type === 'source' || marker.type === 'image' || marker.type === 'paragraph-break')
-    ) {
+    if (isStructuralMarker(marker)) {
       continue;
     }
-
-    if (!context.resolved.has(key)) {
-      const result = translateMarkerV2(key, marker, data, context);
-      context.resolved.set(key, result);
-      results[key] = result;
-    } else {
-      results[key] = context.resolved.get(key)!;
-    }
+    results[key] = context.resolved.get(key)!;
   }
 
   return results;
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { formatExplanation, parseExplanation, serializeExplanation } from './explanations';
+import type { Explanation } from './explanations';
+import { getExplanationLocale } from '$lib/data/contexts';
+
+const SCALED: Explanation = {
+  kind: 'population-scaling',
+  operands: { value: 12345, sourcePopulation: 85000000, targetPopulation: 10000000, result: 1452 },
+  ratio: 10000000 / 85000000,
+  scope: { type: 'country', name: 'CZ' },
+  source: 'Iran',
+};
+
+describe('explanations', () => {
+  it('should round-trip through the pre-translated explanation slot', () => {
+    expect(parseExplanation(serializeExplanation(SCALED))).toEqual(SCALED);
+  });
+
+  it('should keep sentences from files translated before structured explanations', () => {
+    expect(parseExplanation('Scaled from Iran (12345) to CZ')).toBe(
+      'Scaled from Iran (12345) to CZ'
+    );
+    expect(parseExplanation('{not json}')).toBe('{not json}');
+  });
+
+  it('should format the same explanation for each reader language', () => {
+    expect(formatExplanation(SCALED, getExplanationLocale('en'))).toBe(
+      'Scaled from Iran (12,345) to CZ by country population: 12,345 × (10.0M / 85.0M) = 1,452'
+    );
+    expect(formatExplanation(SCALED, getExplanationLocale('de', 'DE'))).toContain(
+      '12.345 × (10,0M / 85,0M) = 1.452'
+    );
+  });
+
+  it('should fall back to English phrases for unknown languages', () => {
+    expect(formatExplanation(SCALED, getExplanationLocale('xx'))).toBe(
+      formatExplanation(SCALED, getExplanationLocale('en'))
+    );
+  });
+
+  it('should add the travel speed to distance explanations', () => {
+    const explanation: Explanation = {
+      kind: 'distance',
+      operands: { distance: 100, speed: 80 },
+      mode: 'driving',
+    };
+
+    expect(formatExplanation(explanation, getExplanationLocale('en'))).toContain('80 km/h');
+  });
+});
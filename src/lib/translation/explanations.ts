@@ -0,0 +1,212 @@
+/**
+ * Structured explanations
+ *
+ * Resolvers describe the math behind a translated value (population scaling,
+ * comparisons, distances) as data instead of English sentences. Tooltips
+ * format an explanation for the reader's language with the templates in
+ * explanation-phrases.yaml, so numbers stay correct and localized without
+ * re-translating the text. Pre-translated stories carry the serialized form.
+ */
+
+import type { ComparisonPhrases } from './core.ts';
+import { formatNumberLocalized, selectPluralForm } from '../utils/number-locale.ts';
+
+export type ExplanationKind =
+  | 'population-scaling' // Scaled numbers and casualties
+  | 'comparable-event' // Casualties compared to a local event
+  | 'marker-comparison' // Casualties compared to another marker
+  | 'distance' // Distances scaled to the local geography, with travel time
+  | 'relocation'; // Places picked at a matching relative distance
+
+export interface Explanation {
+  kind: ExplanationKind;
+  operands: Record<string, number>; // Numbers in the math, formatted for the reader's locale
+  ratio?: number; // Factor applied to (or compared with) the original value
+  scope?: {
+    type: 'country' | 'city' | 'route' | 'span';
+    name: string; // Local country code or place the value was scaled to
+  };
+  source?: string; // Where the value was scaled from (source country or city) or the event compared to
+  names?: Record<string, string>; // Other places the text mentions (e.g., from, to)
+  mode?: 'driving' | 'walking'; // Travel mode of distance explanations
+}
+
+/**
+ * Localized explanation templates (one entry of explanation-phrases.yaml)
+ */
+export interface ExplanationPhrases {
+  population: {
+    country: string; // Uses {source}, {value}, {scope}, {math}
+    city: string;
+  };
+  comparison: string; // Uses {value}, {reference}, {ratio}
+  distance: {
+    route: string; // Uses {source}, {distance}, {scope}, {from}, {to}, {localDistance}, {sourceDistance}, {result}
+    span: string; // Uses {source}, {distance}, {scope}, {localSpan}, {sourceSpan}, {result}
+  };
+  travel: {
+    driving: string; // Uses {speed}
+    walking: string;
+  };
+  relocation: string; // Uses {anchor}, {place}, {source}, {scope}, {localAnchor}, distances, spans and shares
+}
+
+/**
+ * Everything needed to format explanations for one reader
+ */
+export interface ExplanationLocale {
+  languageCode: string;
+  countryCode?: string;
+  phrases: ExplanationPhrases;
+  comparisonPhrases: ComparisonPhrases; // Comparable event explanations
+}
+
+/**
+ * Fill a phrase template
+ * Placeholders are {name} or {name:form}; function values receive the form
+ */
+export function fillPhrase(
+  template: string,
+  values: Record<string, string | ((form?: string) => string)>
+): string {
+  return template.replace(/\{([a-zA-Z]+)(?::([a-z-]+))?\}/g, (match, name, form) => {
+    const value = values[name];
+    if (value === undefined) return match;
+    return typeof value === 'function' ? value(form) : value;
+  });
+}
+
+/**
+ * Format an explanation for the reader's language and country
+ */
+export function formatExplanation(explanation: Explanation, locale: ExplanationLocale): string {
+  const { languageCode, countryCode, phrases, comparisonPhrases } = locale;
+  const { operands } = explanation;
+  const fmt = (value: number, options?: Intl.NumberFormatOptions) =>
+    formatNumberLocalized(value, languageCode, countryCode, options);
+  const millions = (population: number) =>
+    `${fmt(population / 1000000, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}M`;
+  const km = (value: number) => fmt(Math.round(value), { style: 'unit', unit: 'kilometer' });
+  const share = (value: number) => fmt(value, { style: 'percent', maximumFractionDigits: 0 });
+  const source = explanation.source ?? '';
+  const scope = explanation.scope?.name ?? '';
+
+  switch (explanation.kind) {
+    case 'population-scaling': {
+      const factor = operands.factor !== undefined ? ` × ${fmt(operands.factor)}` : '';
+      const math = `${fmt(operands.value)} × (${millions(operands.targetPopulation)} / ${millions(operands.sourcePopulation)})${factor} = ${fmt(operands.result)}`;
+      const template =
+        explanation.scope?.type === 'city' ? phrases.population.city : phrases.population.country;
+      return fillPhrase(template, { source, value: fmt(operands.value), scope, math });
+    }
+
+    case 'comparable-event': {
+      const ratio = explanation.ratio ?? operands.scaled / operands.eventCasualties;
+      const casualtiesText = (count: number) =>
+        fillPhrase(selectPluralForm(count, comparisonPhrases.casualties, languageCode), {
+          count: fmt(count),
+        });
+      const ratioText =
+        ratio >= 1
+          ? fillPhrase(comparisonPhrases.explanation.more, {
+              ratio: fmt(ratio, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+            })
+          : fillPhrase(comparisonPhrases.explanation.less, { percent: share(ratio) });
+      return fillPhrase(comparisonPhrases.explanation.text, {
+        scaled: casualtiesText(operands.scaled),
+        event: source,
+        eventCasualties: casualtiesText(operands.eventCasualties),
+        year: String(operands.year),
+        ratio: ratioText,
+      });
+    }
+
+    case 'marker-comparison': {
+      const ratio = explanation.ratio ?? operands.value / operands.reference;
+      const digits = ratio > 2 ? 0 : 1;
+      return fillPhrase(phrases.comparison, {
+        value: fmt(operands.value),
+        reference: fmt(operands.reference),
+        ratio: fillPhrase(comparisonPhrases.explanation.more, {
+          ratio: fmt(digits === 0 ? Math.round(ratio) : ratio, {
+            minimumFractionDigits: digits,
+            maximumFractionDigits: digits,
+          }),
+        }),
+      });
+    }
+
+    case 'distance': {
+      const parts: string[] = [];
+      const template =
+        explanation.scope?.type === 'route'
+          ? phrases.distance.route
+          : explanation.scope?.type === 'span'
+            ? phrases.distance.span
+            : null;
+      if (template) {
+        parts.push(
+          fillPhrase(template, {
+            source,
+            scope,
+            distance: km(operands.distance),
+            result: km(operands.result),
+            from: explanation.names?.from ?? '',
+            to: explanation.names?.to ?? '',
+            localDistance: km(operands.localDistance ?? 0),
+            sourceDistance: km(operands.sourceDistance ?? 0),
+            localSpan: km(operands.localSpan ?? 0),
+            sourceSpan: km(operands.sourceSpan ?? 0),
+          })
+        );
+      }
+      if (explanation.mode && operands.speed !== undefined) {
+        parts.push(
+          fillPhrase(phrases.travel[explanation.mode], {
+            speed: fmt(operands.speed, { style: 'unit', unit: 'kilometer-per-hour' }),
+          })
+        );
+      }
+      return parts.join('. ');
+    }
+
+    case 'relocation':
+      return fillPhrase(phrases.relocation, {
+        anchor: explanation.names?.anchor ?? '',
+        place: explanation.names?.place ?? '',
+        localAnchor: explanation.names?.localAnchor ?? '',
+        source,
+        scope,
+        sourceDistance: km(operands.sourceDistance),
+        sourceSpan: km(operands.sourceSpan),
+        sourceShare: share(operands.sourceDistance / operands.sourceSpan),
+        localDistance: km(operands.localDistance),
+        localSpan: km(operands.localSpan),
+        localShare: share(operands.localDistance / operands.localSpan),
+      });
+  }
+}
+
+/**
+ * Serialize an explanation for the explanation slot of pre-translated markers
+ */
+export function serializeExplanation(explanation: Explanation): string {
+  return JSON.stringify(explanation);
+}
+
+/**
+ * Parse the explanation slot of a pre-translated marker
+ * Returns the structured explanation, or the text itself for files translated
+ * before explanations were structured.
+ */
+export function parseExplanation(text: string): Explanation | string {
+  if (text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text) as Explanation;
+      if (typeof parsed.kind === 'string' && parsed.operands) return parsed;
+    } catch {
+      // Not JSON - a translated sentence
+    }
+  }
+  return text;
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { checkMarkerParity } from './marker-parity';
+import { readPreTranslatedFields, SEGMENTED_FORMAT } from './pretranslated-story';
+import type { PreTranslatedSegment } from './pretranslated-story';
+import type { TranslationResult } from './core';
+import type { Story } from '$lib/types';
+
+const STORY = {
+  id: 'story',
+  slug: 'story',
+  title: '{{person1}}',
+  summary: 'A story',
+  content:
+    '{{person1}} ({{person1:age}}) was one of {{arrested}} arrested{{source:bbc}}.\n\n' +
+    '{{she}} paid {{bail}}. {{image:photo}}',
+  markers: {
+    person1: { person: 'Zahra', gender: 'female', age: 22 },
+    she: { sameAs: 'person1' },
+    arrested: { number: 47 },
+    bail: { currency: 80000000 },
+    chant: { text: 'Woman, Life, Freedom' },
+  },
+  sources: [{ id: 'bbc', number: 1, title: 'BBC', url: 'https://bbc.com' }],
+  images: [{ id: 'photo', src: '/photo.jpg', alt: 'Photo' }],
+} as unknown as Story;
+
+const TRANSLATIONS: Record<string, TranslationResult> = {
+  person1: { value: 'Lena', original: 'Zahra' },
+  arrested: { value: '46', original: '47', numericValue: 46 },
+  bail: { value: '1.680\u00a0€', original: '80.000.000 Rial', numericValue: 1680 },
+};
+
+const person = { marker: 'person1', type: 'person', original: 'Zahra', local: 'Lena' };
+const arrested = { marker: 'arrested', type: 'number', original: '47', local: '46' };
+const bail = { marker: 'bail', type: 'currency', original: '80.000.000 Rial', local: '1.680 €' };
+
+function check(content: PreTranslatedSegment[][]) {
+  const fields = readPreTranslatedFields({
+    format: SEGMENTED_FORMAT,
+    title: [[person]],
+    summary: [['Eine Geschichte']],
+    content,
+  });
+  return checkMarkerParity(STORY, fields, TRANSLATIONS);
+}
+
+describe('checkMarkerParity', () => {
+  it('should accept a file with the same markers, sources and images', () => {
+    const report = check([
+      [person, ' (22) war eine von ', arrested, { placeholder: 'source', suffix: 'bbc' }],
+      [person, ' zahlte ', bail, '. ', { placeholder: 'image', suffix: 'photo' }],
+    ]);
+
+    expect(report).toEqual({ markers: 5, sources: 1, images: 1, comparisons: 0, issues: [] });
+  });
+
+  it('should report dropped, duplicated and invented markers', () => {
+    const { issues } = check([
+      [person, ' war eine von ', arrested, arrested, { placeholder: 'source', suffix: 'bbc' }],
+      [{ ...person, marker: 'chant' }, { placeholder: 'typo' }],
+    ]);
+
+    expect(issues).toEqual([
+      { severity: 'error', message: "Marker 'chant': type 'person' should be 'text'" },
+      { severity: 'warning', message: "Marker 'arrested': duplicated (2 times, 1 in story.yaml)" },
+      { severity: 'error', message: "Marker 'chant': not used in story.yaml" },
+      { severity: 'error', message: "Marker 'typo': not defined in story.yaml" },
+      { severity: 'warning', message: "Marker 'person1': missing (2 times, 3 in story.yaml)" },
+      { severity: 'warning', message: "Marker 'bail': missing (0 times, 1 in story.yaml)" },
+      { severity: 'warning', message: "Image 'photo': missing (0 times, 1 in story.yaml)" },
+    ]);
+  });
+
+  it('should expect pronouns as text and possessives as the name', () => {
+    const story = {
+      ...STORY,
+      content: '{{person1:possessive}} bail was {{bail}}. {{she:They}} paid {{person1:age}}.',
+    } as Story;
+    const fields = readPreTranslatedFields({
+      format: SEGMENTED_FORMAT,
+      title: [[person]],
+      summary: [['Eine Geschichte']],
+      content: [[person, 's Kaution betrug ', bail, '. Sie zahlte 22.']],
+    });
+
+    expect(checkMarkerParity(story, fields, TRANSLATIONS).issues).toEqual([]);
+  });
+
+  it('should report sources and images not in story.yaml', () => {
+    const { issues } = check([
+      [person, arrested, { placeholder: 'source', suffix: 'cnn' }],
+      [person, bail, { placeholder: 'image', suffix: 'photo' }],
+    ]);
+
+    expect(issues).toEqual([
+      { severity: 'error', message: "Source 'cnn': not defined in story.yaml" },
+      { severity: 'warning', message: "Source 'bbc': missing (0 times, 1 in story.yaml)" },
+    ]);
+  });
+
+  it('should report numeric values that no longer match the country', () => {
+    const { issues } = check([
+      [person, { ...arrested, local: '48' }, { placeholder: 'source', suffix: 'bbc' }],
+      [person, bail, { placeholder: 'image', suffix: 'photo' }],
+    ]);
+
+    expect(issues).toEqual([
+      {
+        severity: 'warning',
+        message: "Marker 'arrested': value '48' doesn't match '46' - re-run npm run translate",
+      },
+    ]);
+  });
+
+  it('should report values formatted for another language', () => {
+    const { issues } = check([
+      [person, arrested, { placeholder: 'source', suffix: 'bbc' }],
+      [person, { ...bail, local: '1,680 €' }, { placeholder: 'image', suffix: 'photo' }],
+      [{ ...bail, local: '16.80 €' }],
+    ]);
+
+    expect(issues).toEqual([
+      {
+        severity: 'warning',
+        message:
+          "Marker 'bail': value '1,680 €' is formatted differently from '1.680\u00a0€' - re-run npm run translate",
+      },
+      {
+        severity: 'warning',
+        message:
+          "Marker 'bail': value '16.80 €' is formatted differently from '1.680\u00a0€' - re-run npm run translate",
+      },
+      { severity: 'warning', message: "Marker 'bail': duplicated (2 times, 1 in story.yaml)" },
+    ]);
+  });
+});
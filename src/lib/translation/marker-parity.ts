@@ -0,0 +1,233 @@
+/**
+ * Marker parity between a story and its pre-translated files
+ *
+ * The translate script replaces every {{key}} reference in story.yaml with a
+ * marker segment (aliases with their target's key), keeps sources and images as
+ * placeholders, turns {{key:comparable}} into a comparison and pronouns
+ * ({{person1:their}}) into text. A pre-translated file should contain exactly
+ * those segments - the model translating it can drop, duplicate or invent them.
+ * Numeric values should also still match what the markers resolve to for the
+ * file's country, formatted for its language.
+ */
+
+import { parseText } from './parser.ts';
+import type { PreTranslatedFields } from './pretranslated-story.ts';
+import { TRANSLATED_FIELDS } from './pretranslated-story.ts';
+import type { TranslationResult } from './core.ts';
+import type { Story } from '../types/index.ts';
+import { getMarkerType, isAliasMarker } from '../types/index.ts';
+import { hasMarkerForm, renderMarkerForm } from './markers/index.ts';
+
+export interface ParityIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ParityReport {
+  markers: number; // Marker segments and runtime placeholders in the file
+  sources: number;
+  images: number;
+  comparisons: number;
+  issues: ParityIssue[];
+}
+
+/**
+ * Segments of one kind, counted per key
+ */
+type Counts = Map<string, number>;
+
+function count(counts: Counts, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function total(counts: Counts): number {
+  return [...counts.values()].reduce((sum, n) => sum + n, 0);
+}
+
+/**
+ * Key a reference ends up under in a pre-translated file (aliases use their target's)
+ */
+function segmentKey(story: Story, key: string): string {
+  const marker = story.markers[key];
+  return marker && isAliasMarker(marker) && story.markers[marker.sameAs] ? marker.sameAs : key;
+}
+
+/**
+ * Whether a {{key:suffix}} reference is a form without the marker's value ({{person1:their}}),
+ * which the translate script writes as text - a possessive keeps the name's marker
+ */
+function isPronounForm(
+  story: Story,
+  key: string,
+  suffix: string | undefined,
+  translations: Record<string, TranslationResult>
+): boolean {
+  const target = segmentKey(story, key);
+  const marker = story.markers[target];
+  const translation = translations[key] ?? translations[target];
+  if (!translation || !hasMarkerForm(marker, suffix)) return false;
+  return !renderMarkerForm(marker, suffix, translation.value, 'en')!.startsWith(translation.value);
+}
+
+/**
+ * Digits of a value, ignoring locale formatting ("1,680 €" and "1.680 €" match)
+ */
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * A value with plain spaces (Intl formats with non-breaking ones: "29 093")
+ */
+function normalizeSpaces(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Compare how often each key is used in story.yaml and in the pre-translated file
+ */
+function compareCounts(
+  kind: string,
+  expected: Counts,
+  actual: Counts,
+  defined: (key: string) => boolean,
+  issues: ParityIssue[]
+) {
+  for (const [key, found] of actual) {
+    if (!defined(key)) {
+      issues.push({ severity: 'error', message: `${kind} '${key}': not defined in story.yaml` });
+    } else if (!expected.has(key)) {
+      issues.push({ severity: 'error', message: `${kind} '${key}': not used in story.yaml` });
+    } else if (found > expected.get(key)!) {
+      issues.push({
+        severity: 'warning',
+        message: `${kind} '${key}': duplicated (${found} times, ${expected.get(key)} in story.yaml)`,
+      });
+    }
+  }
+  for (const [key, used] of expected) {
+    const found = actual.get(key) ?? 0;
+    if (found < used) {
+      issues.push({
+        severity: 'warning',
+        message: `${kind} '${key}': missing (${found} times, ${used} in story.yaml)`,
+      });
+    }
+  }
+}
+
+/**
+ * Check a pre-translated file against its story
+ * @param translations - The story's markers resolved for the file's country and
+ *   formatted for its language (translateMarkersV2)
+ */
+export function checkMarkerParity(
+  story: Story,
+  fields: PreTranslatedFields,
+  translations: Record<string, TranslationResult>
+): ParityReport {
+  const issues: ParityIssue[] = [];
+
+  // What the translate script writes for story.yaml
+  const expected: Record<'markers' | 'sources' | 'images', Counts> = {
+    markers: new Map(),
+    sources: new Map(),
+    images: new Map(),
+  };
+  let expectedComparisons = 0;
+  for (const field of TRANSLATED_FIELDS) {
+    for (const token of parseText(story[field])) {
+      if (token.type !== 'marker' || !token.markerKey) continue;
+      const { markerKey: key, suffix } = token;
+      const marker = story.markers[key];
+
+      if (key === 'source' || key === 'image') {
+        if (suffix) count(key === 'source' ? expected.sources : expected.images, suffix);
+      } else if (
+        !marker ||
+        (suffix === 'age' && 'age' in marker) ||
+        isPronounForm(story, key, suffix, translations)
+      ) {
+        // Undefined references are reported with story.yaml; ages and pronouns are plain text
+      } else if (suffix === 'comparable' && 'casualties' in marker) {
+        if (translations[key]?.comparison) expectedComparisons++;
+      } else {
+        count(expected.markers, segmentKey(story, key));
+      }
+    }
+  }
+
+  // What the pre-translated file contains
+  const actual: typeof expected = { markers: new Map(), sources: new Map(), images: new Map() };
+  let comparisons = 0;
+  const reported = new Set<string>();
+  const reportOnce = (id: string, issue: ParityIssue) => {
+    if (reported.has(id)) return;
+    reported.add(id);
+    issues.push(issue);
+  };
+
+  for (const field of TRANSLATED_FIELDS) {
+    for (const node of fields[field].flat()) {
+      if (node.type === 'comparison') {
+        comparisons++;
+      } else if (node.type === 'placeholder') {
+        if (node.key === 'source' || node.key === 'image') {
+          if (node.suffix)
+            count(node.key === 'source' ? actual.sources : actual.images, node.suffix);
+        } else {
+          // Left for runtime translation
+          count(actual.markers, segmentKey(story, node.key));
+        }
+      } else if (node.type === 'marker') {
+        count(actual.markers, node.key);
+        const marker = story.markers[node.key];
+        if (!marker) continue;
+
+        const markerType = getMarkerType(marker);
+        if (node.markerType !== markerType) {
+          reportOnce(`type:${node.key}`, {
+            severity: 'error',
+            message: `Marker '${node.key}': type '${node.markerType}' should be '${markerType}'`,
+          });
+        }
+
+        const translation = translations[node.key];
+        if (
+          translation?.numericValue !== undefined &&
+          normalizeSpaces(node.value) !== normalizeSpaces(translation.value)
+        ) {
+          // Same digits: left unlocalized ("1,680" for a German reader) or regrouped
+          const mismatch =
+            digits(node.value) === digits(translation.value)
+              ? 'is formatted differently from'
+              : "doesn't match";
+          reportOnce(`value:${node.key}:${node.value}`, {
+            severity: 'warning',
+            message: `Marker '${node.key}': value '${node.value}' ${mismatch} '${translation.value}' - re-run npm run translate`,
+          });
+        }
+      }
+    }
+  }
+
+  const sourceIds = new Set(story.sources?.map((source) => source.id));
+  const imageIds = new Set(story.images?.map((image) => image.id));
+  compareCounts('Marker', expected.markers, actual.markers, (key) => key in story.markers, issues);
+  compareCounts('Source', expected.sources, actual.sources, (id) => sourceIds.has(id), issues);
+  compareCounts('Image', expected.images, actual.images, (id) => imageIds.has(id), issues);
+  if (comparisons !== expectedComparisons) {
+    issues.push({
+      severity: 'warning',
+      message: `${comparisons} comparisons, story.yaml has ${expectedComparisons}`,
+    });
+  }
+
+  return {
+    markers: total(actual.markers),
+    sources: total(actual.sources),
+    images: total(actual.images),
+    comparisons,
+    issues,
+  };
+}
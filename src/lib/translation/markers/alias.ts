@@ -0,0 +1,37 @@
+/**
+ * Alias marker - reuses another marker's translation
+ */
+
+import type { AliasMarker } from '../../types/index.ts';
+import { defineMarkerType } from './types.ts';
+
+export const aliasMarker = defineMarkerType<'alias', AliasMarker>({
+  type: 'alias',
+  detect: (marker) => 'sameAs' in marker,
+  schema: {
+    name: 'AliasMarker',
+    definition: {
+      type: 'object',
+      required: ['sameAs'],
+      properties: {
+        sameAs: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+  },
+  dependencies: ['sameAs'],
+  original: () => '[alias]',
+  resolve(marker, context) {
+    const targetResult = context.resolve(marker.sameAs);
+    if (targetResult) {
+      return targetResult;
+    }
+    // Target not found - return error
+    return {
+      value: `[alias:${marker.sameAs}]`,
+      original: null,
+      fallbackReason: `Alias target '${marker.sameAs}' not found`,
+    };
+  },
+  segment: { style: 'strikethrough-muted' },
+});
@@ -0,0 +1,232 @@
+/**
+ * Casualties marker - human casualties, scaled by population with comparable local events
+ */
+
+import type { CasualtiesMarker } from '../../types/index.ts';
+import type { ComparableEvent, ComparisonPhrases } from '../core.ts';
+import { fillPhrase } from '../explanations.ts';
+import type { Explanation } from '../explanations.ts';
+import { formatNumberLocalized } from '../../utils/number-locale.ts';
+import { defineMarkerType } from './types.ts';
+
+/**
+ * Find closest comparable event by casualties
+ * Returns null if no reasonably close match is found (within 3x range)
+ */
+export function findClosestEvent(
+  events: ComparableEvent[],
+  casualties: number,
+  category: string | null
+): ComparableEvent | null {
+  if (events.length === 0) return null;
+
+  let candidates = events;
+
+  // Filter by category if specified
+  if (category) {
+    const filtered = events.filter((e) => e.category === category);
+    if (filtered.length > 0) {
+      candidates = filtered;
+    }
+  }
+
+  // Find closest by casualties and return it
+  // We always show the closest match - the comparison text will handle large multipliers
+  const closest = candidates.reduce((best, current) => {
+    const bestDiff = Math.abs(best.casualties - casualties);
+    const currentDiff = Math.abs(current.casualties - casualties);
+    return currentDiff < bestDiff ? current : best;
+  });
+
+  return closest;
+}
+
+/**
+ * Generate comparison text for casualties
+ */
+export function generateComparisonText(
+  scaledCasualties: number,
+  event: ComparableEvent,
+  phrases: ComparisonPhrases,
+  languageCode: string = 'en',
+  countryCode?: string
+): { text: string; explanation: Explanation } {
+  const fmt = (value: number, options?: Intl.NumberFormatOptions) =>
+    formatNumberLocalized(value, languageCode, countryCode, options);
+
+  const exactRatio = scaledCasualties / event.casualties;
+
+  // Use localized event name if available, otherwise fall back to English
+  const localizedName = event.localizedNames?.[languageCode]?.trim();
+  const eventName = localizedName || event.name.trim();
+  const eventFullName = localizedName || event.fullName || eventName;
+  const inflect = (name: string) => (form?: string) =>
+    (form && event.localizedCases?.[languageCode]?.[form]) || name;
+
+  let comparisonText: string;
+
+  // Within 15% margin (0.85-1.15x) - say "approximately"
+  if (exactRatio >= 0.85 && exactRatio <= 1.15) {
+    comparisonText = fillPhrase(phrases.approximately, { event: inflect(eventFullName) });
+  }
+  // Fractional comparisons (less than the event)
+  else if (exactRatio < 0.85) {
+    const fraction = exactRatio <= 0.35 ? 'third' : exactRatio <= 0.55 ? 'half' : 'two-thirds';
+    comparisonText = fillPhrase(phrases.fraction[fraction], { event: inflect(eventFullName) });
+  }
+  // Multiple times more (greater than the event)
+  else {
+    const multiplier = Math.round(exactRatio);
+    const template =
+      multiplier === 2
+        ? phrases.multiple.twice
+        : multiplier === 3
+          ? phrases.multiple.thrice
+          : phrases.multiple.times;
+    comparisonText = fillPhrase(template, {
+      event: inflect(eventName),
+      n: fmt(multiplier),
+    });
+  }
+
+  // Wrap in brackets
+  const text = `(${comparisonText})`;
+
+  const explanation: Explanation = {
+    kind: 'comparable-event',
+    operands: { scaled: scaledCasualties, eventCasualties: event.casualties, year: event.year },
+    ratio: exactRatio,
+    source: eventName,
+  };
+
+  return { text, explanation };
+}
+
+export const casualtiesMarker = defineMarkerType<'casualties', CasualtiesMarker>({
+  type: 'casualties',
+  detect: (marker) => 'casualties' in marker,
+  schema: {
+    name: 'CasualtiesMarker',
+    definition: {
+      type: 'object',
+      required: ['casualties'],
+      properties: {
+        casualties: { type: 'integer', minimum: 0 },
+        killed: { type: 'boolean' },
+        wounded: { type: 'boolean' },
+        arrested: { type: 'boolean' },
+        scope: { type: 'string', enum: ['country', 'city', 'event'] },
+        scopeCity: { type: 'string' },
+        comparable: {
+          type: 'string',
+          enum: ['any', 'massacre', 'terrorist-attack', 'disaster', 'conflict'],
+        },
+        comparedTo: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+  },
+  dependencies: ['scopeCity', 'comparedTo'],
+  original: (marker) => marker.casualties.toString(),
+  resolve(marker, context) {
+    const { data } = context;
+
+    // Step 1: Determine the populations to scale between
+    let sourcePopulation = data.source.population;
+    let targetPopulation = data.population; // Default: country population
+    let sourceName = data.source.name;
+    let scopeType: 'country' | 'city' = 'country';
+    let scopeName = data.country;
+
+    if (marker.scope === 'city' && marker.scopeCity) {
+      // Scale from the real source city to the local city it was relocated to
+      const sourceCity = context.sourceCity(marker.scopeCity);
+      const localCity = context.localCity(marker.scopeCity);
+      if (sourceCity && localCity?.population) {
+        sourcePopulation = sourceCity.population;
+        targetPopulation = localCity.population;
+        sourceName = `${sourceCity.name}, ${data.source.name}`;
+        scopeType = 'city';
+        scopeName = localCity.name;
+      }
+      // Otherwise fall back to country scaling (validate:contexts warns about this)
+    }
+
+    // Step 2: Scale to local context - pure population ratio
+    const scaledValue = Math.round(marker.casualties * (targetPopulation / sourcePopulation));
+
+    const explanation: Explanation = {
+      kind: 'population-scaling',
+      operands: {
+        value: marker.casualties,
+        sourcePopulation,
+        targetPopulation,
+        result: scaledValue,
+      },
+      ratio: targetPopulation / sourcePopulation,
+      scope: { type: scopeType, name: scopeName },
+      source: sourceName,
+    };
+
+    // Step 3: Find comparable event using SCALED value
+    let comparison: string | undefined = undefined;
+    let comparisonExplanation: Explanation | undefined = undefined;
+    if (
+      marker.comparable &&
+      data.comparisonPhrases &&
+      data.comparableEvents &&
+      data.comparableEvents.length > 0
+    ) {
+      const category = marker.comparable === 'any' ? null : marker.comparable;
+      const event = findClosestEvent(data.comparableEvents, scaledValue, category);
+
+      if (event) {
+        const result = generateComparisonText(
+          scaledValue,
+          event,
+          data.comparisonPhrases,
+          data.languageCode || 'en',
+          data.country
+        );
+        comparison = result.text;
+        comparisonExplanation = result.explanation;
+      }
+    }
+
+    // Step 4: Handle comparisons to other markers
+    const referenceResult = marker.comparedTo ? context.resolve(marker.comparedTo) : null;
+    if (referenceResult?.numericValue && data.comparisonPhrases) {
+      const referenceValue = referenceResult.numericValue;
+      const ratio = scaledValue / referenceValue;
+
+      if (ratio > 1.5) {
+        // Whole multiples it is more than (2.7x is "more than twice")
+        const multiplier = Math.floor(ratio);
+        const phrases = data.comparisonPhrases.compared;
+        comparison = fillPhrase(
+          multiplier < 2
+            ? phrases['almost-twice']
+            : multiplier === 2
+              ? phrases.twice
+              : phrases.times,
+          { n: context.format(multiplier) }
+        );
+        comparisonExplanation = {
+          kind: 'marker-comparison',
+          operands: { value: scaledValue, reference: referenceValue },
+          ratio,
+        };
+      }
+    }
+
+    return {
+      value: context.format(scaledValue),
+      original: context.format(marker.casualties),
+      comparison,
+      comparisonExplanation,
+      explanation,
+      numericValue: scaledValue,
+    };
+  },
+  segment: { style: 'strikethrough-muted' },
+});
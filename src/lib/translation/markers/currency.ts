@@ -0,0 +1,44 @@
+/**
+ * Currency marker - amounts in the source currency converted to the local currency
+ */
+
+import type { Marker } from '../../types/index.ts';
+import { formatNumberLocalized, formatCurrencyLocalized } from '../../utils/number-locale.ts';
+import { defineMarkerType } from './types.ts';
+
+interface CurrencyMarker {
+  currency: number; // Amount in the source currency (e.g., Rial)
+}
+
+export const currencyMarker = defineMarkerType<'currency', CurrencyMarker>({
+  type: 'currency',
+  detect: (marker: Marker) =>
+    'currency' in marker && typeof (marker as CurrencyMarker).currency === 'number',
+  schema: {
+    name: 'CurrencyMarker',
+    definition: {
+      type: 'object',
+      required: ['currency'],
+      properties: {
+        currency: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+  },
+  original: (marker, source) =>
+    `${formatNumberLocalized(marker.currency)} ${source['currency-name']}`,
+  resolve(marker, context) {
+    const { data } = context;
+    const amount = marker.currency;
+    // Convert from the source currency to local currency
+    const localAmount = Math.round(amount * data.exchangeRate);
+    return {
+      value: data.currency
+        ? formatCurrencyLocalized(localAmount, data.currency, data.languageCode, data.country)
+        : `${data.currencySymbol}${context.format(localAmount)}`,
+      original: `${context.format(amount)} ${data.source['currency-name']}`,
+      numericValue: localAmount,
+    };
+  },
+  segment: { style: 'strikethrough-muted' },
+});
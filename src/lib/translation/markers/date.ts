@@ -0,0 +1,42 @@
+/**
+ * Date marker - dates are formatted for the reader's language, with the date in
+ * the source's calendar (e.g., Persian for Iran) as the original
+ */
+
+import type { DateMarker } from '../../types/index.ts';
+import { formatDateInCalendar, formatDateLocalized } from '../../utils/date-locale.ts';
+import { defineMarkerType } from './types.ts';
+
+export const dateMarker = defineMarkerType<'date', DateMarker>({
+  type: 'date',
+  detect: (marker) => 'date' in marker,
+  schema: {
+    name: 'DateMarker',
+    definition: {
+      type: 'object',
+      required: ['date'],
+      properties: {
+        date: {
+          type: 'string',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  original: (marker) => marker.date,
+  resolve: (marker) => ({
+    value: marker.date,
+    original: null, // The source calendar's date is added by segment.render
+  }),
+  segment: {
+    style: 'strikethrough-muted',
+    render(marker, { language, source }) {
+      const text = formatDateLocalized(marker.date, language);
+      const original = source.calendar
+        ? formatDateInCalendar(marker.date, language, source.calendar)
+        : null;
+      return { text, original: original !== text ? original : null };
+    },
+  },
+});
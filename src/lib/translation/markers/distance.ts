@@ -0,0 +1,149 @@
+/**
+ * Distance marker - distance between places, scaled to the local geography
+ */
+
+import type { DistanceMarker } from '../../types/index.ts';
+import { haversineKm, spanKm } from '../../utils/geo.ts';
+import type { Explanation } from '../explanations.ts';
+import { defineMarkerType } from './types.ts';
+import type { MarkerResolveContext } from './types.ts';
+
+const KM_PER_MILE = 1.609344;
+
+// Countries that give road distances in miles
+const MILE_COUNTRIES = new Set(['US', 'UK']);
+
+// Average travel speeds in km/h
+const TRAVEL_SPEEDS: Record<NonNullable<DistanceMarker['travel']>, number> = {
+  driving: 80,
+  walking: 5,
+};
+
+/**
+ * Local-to-source distance ratio with the distances it compares
+ * Uses the straight-line distance between the from/to cities when both ends
+ * have coordinates in both countries, otherwise the ratio of country spans.
+ */
+function getDistanceRatio(
+  marker: DistanceMarker,
+  context: MarkerResolveContext
+): ({ ratio: number } & Pick<Explanation, 'scope' | 'operands' | 'names'>) | null {
+  const { data } = context;
+
+  if (marker.from && marker.to) {
+    const sourceFrom = context.sourceCoordinates(marker.from);
+    const sourceTo = context.sourceCoordinates(marker.to);
+    const localFrom = context.localCity(marker.from);
+    const localTo = context.localCity(marker.to);
+    if (sourceFrom && sourceTo && localFrom?.coordinates && localTo?.coordinates) {
+      const sourceDistance = haversineKm(sourceFrom, sourceTo);
+      const localDistance = haversineKm(localFrom.coordinates, localTo.coordinates);
+      if (sourceDistance > 0 && localDistance > 0) {
+        return {
+          ratio: localDistance / sourceDistance,
+          scope: { type: 'route', name: data.country },
+          operands: { localDistance, sourceDistance },
+          names: { from: localFrom.name, to: localTo.name },
+        };
+      }
+    }
+  }
+
+  const sourceSpan = spanKm(data.source.cities.map((c) => c.coordinates));
+  const localSpan = spanKm(
+    data.places.cities.flatMap((c) => (c.coordinates ? [c.coordinates] : []))
+  );
+  if (sourceSpan === 0 || localSpan === 0) return null;
+  return {
+    ratio: localSpan / sourceSpan,
+    scope: { type: 'span', name: data.country },
+    operands: { localSpan, sourceSpan },
+  };
+}
+
+/**
+ * Format a travel time in hours (minutes below one hour)
+ */
+function formatTravelTime(hours: number, context: MarkerResolveContext): string {
+  if (hours < 1) {
+    return context.format(Math.max(1, Math.round(hours * 60)), {
+      style: 'unit',
+      unit: 'minute',
+      unitDisplay: 'long',
+    });
+  }
+  return context.format(hours, {
+    style: 'unit',
+    unit: 'hour',
+    unitDisplay: 'long',
+    maximumFractionDigits: hours < 10 ? 1 : 0,
+  });
+}
+
+export const distanceMarker = defineMarkerType<'distance', DistanceMarker>({
+  type: 'distance',
+  detect: (marker) => 'distance' in marker,
+  schema: {
+    name: 'DistanceMarker',
+    definition: {
+      type: 'object',
+      required: ['distance'],
+      properties: {
+        distance: { type: 'number', minimum: 0 },
+        scaled: { type: 'boolean' },
+        from: { type: 'string' },
+        to: { type: 'string' },
+        travel: { type: 'string', enum: ['driving', 'walking'] },
+      },
+      additionalProperties: false,
+    },
+  },
+  dependencies: ['from', 'to'],
+  original: (marker) => `${marker.distance} km`,
+  resolve(marker, context) {
+    const { data } = context;
+    let explanation: Explanation | undefined = undefined;
+
+    let distance = marker.distance;
+    if (marker.scaled) {
+      const scaling = getDistanceRatio(marker, context);
+      if (scaling) {
+        distance = marker.distance * scaling.ratio;
+        explanation = {
+          kind: 'distance',
+          operands: { distance: marker.distance, ...scaling.operands, result: distance },
+          ratio: scaling.ratio,
+          scope: scaling.scope,
+          source: data.source.name,
+          names: scaling.names,
+        };
+      }
+    }
+
+    const useMiles = MILE_COUNTRIES.has(data.country);
+    const localDistance = Math.round(useMiles ? distance / KM_PER_MILE : distance);
+    let value = context.format(localDistance, {
+      style: 'unit',
+      unit: useMiles ? 'mile' : 'kilometer',
+    });
+
+    if (marker.travel) {
+      const speed = TRAVEL_SPEEDS[marker.travel];
+      value = `${value} (${formatTravelTime(distance / speed, context)})`;
+      explanation = {
+        kind: 'distance',
+        ...explanation,
+        operands: { distance: marker.distance, ...explanation?.operands, speed },
+        mode: marker.travel,
+      };
+    }
+
+    return {
+      value,
+      original: `${context.format(marker.distance)} km`,
+      explanation,
+      numericValue: localDistance,
+    };
+  },
+  segment: { style: 'strikethrough-muted' },
+});
@@ -0,0 +1,27 @@
+/**
+ * Image marker - embedded image
+ * Keeps an explicit `type` field and is never translated
+ */
+
+import type { ImageMarker } from '../../types/index.ts';
+import { defineMarkerType } from './types.ts';
+
+export const imageMarker = defineMarkerType<'image', ImageMarker>({
+  type: 'image',
+  detect: (marker) => 'type' in marker && marker.type === 'image',
+  structural: true,
+  segment: {
+    render: (marker) => ({
+      text: '',
+      original: null,
+      metadata: {
+        src: marker.src,
+        alt: marker.alt,
+        caption: marker.caption,
+        contentWarning: marker.contentWarning,
+        credit: marker.credit,
+        creditUrl: marker.creditUrl,
+      },
+    }),
+  },
+});
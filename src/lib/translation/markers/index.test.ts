@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { readFileSync } from 'fs';
+import { load } from 'js-yaml';
+import {
+  MARKER_TYPES,
+  buildStorySchema,
+  getMarkerDefinition,
+  getMarkerSuffixes,
+  getMarkerTypeDefinition,
+  getOriginalMarkerValue,
+  getRegisteredMarkerTypes,
+  renderMarkerForm,
+} from './index';
+import type { Marker } from '$lib/types';
+import { sourceContexts } from '$lib/data/contexts';
+import { getSourceContext } from '../source-context';
+
+const storySchema = JSON.parse(readFileSync('schemas/story.schema.json', 'utf-8'));
+
+describe('marker type registry', () => {
+  it('should detect marker types from their properties', () => {
+    expect(getMarkerDefinition({ person: 'Zahra', gender: 'f' })?.type).toBe('person');
+    expect(getMarkerDefinition({ place: 'Tehran', 'city-large': true })?.type).toBe('place');
+    expect(getMarkerDefinition({ casualties: 10 })?.type).toBe('casualties');
+    expect(getMarkerDefinition({ sameAs: 'city' })?.type).toBe('alias');
+    expect(getMarkerDefinition({} as Marker)).toBeNull();
+  });
+
+  it('should detect structural markers before data markers', () => {
+    const source = { type: 'source', number: 1, text: 'Amnesty report' } as unknown as Marker;
+    expect(getMarkerDefinition(source)?.type).toBe('source');
+    expect(getMarkerDefinition(source)?.structural).toBe(true);
+  });
+
+  it('should have unique type names', () => {
+    const types = getRegisteredMarkerTypes();
+    expect(new Set(types).size).toBe(types.length);
+    expect(getMarkerTypeDefinition('casualties')?.dependencies).toEqual([
+      'scopeCity',
+      'comparedTo',
+    ]);
+  });
+
+  it('should give every schema-bearing type a resolver and an original value', () => {
+    for (const definition of MARKER_TYPES) {
+      if (!definition.schema) continue;
+      expect(definition.resolve, definition.type).toBeTypeOf('function');
+      expect(definition.original, definition.type).toBeTypeOf('function');
+    }
+  });
+
+  it('should get original values for display', () => {
+    const iran = getSourceContext(sourceContexts, 'IR');
+    const belarus = getSourceContext(sourceContexts, 'BY');
+    const currency = { currency: 50000 } as unknown as Marker; // Not part of the Marker union
+
+    expect(getOriginalMarkerValue({ person: 'Zahra', gender: 'f' }, iran)).toBe('Zahra');
+    expect(getOriginalMarkerValue({ number: 1200 }, iran)).toBe('1200');
+    expect(getOriginalMarkerValue(currency, iran)).toBe('50,000 Rial');
+    expect(getOriginalMarkerValue(currency, belarus)).toBe('50,000 Belarusian ruble');
+    expect(getOriginalMarkerValue({} as Marker, iran)).toBe('[original]');
+  });
+
+  it('should list the suffixes each marker accepts', () => {
+    expect(getMarkerSuffixes({ person: 'Zahra', gender: 'f', age: 22 })).toEqual([
+      'original',
+      'translated',
+      'age',
+      'possessive',
+      'they',
+      'them',
+      'their',
+    ]);
+    expect(getMarkerSuffixes({ casualties: 10 })).toEqual(['original', 'translated', 'comparable']);
+  });
+
+  it('should render forms of person markers', () => {
+    const person: Marker = { person: 'Zahra', gender: 'f' };
+
+    expect(renderMarkerForm(person, 'possessive', 'Lukas', 'en')).toBe("Lukas'");
+    expect(renderMarkerForm(person, 'They', 'Sarah', 'en')).toBe('She');
+    expect(renderMarkerForm(person, 'their', 'Lena', 'de')).toBe('ihr');
+    expect(renderMarkerForm(person, 'age', 'Sarah', 'en')).toBeNull();
+    expect(renderMarkerForm({ number: 5 }, 'their', '5', 'en')).toBeNull();
+  });
+
+  it('should keep story.schema.json in sync with the registry', () => {
+    expect(buildStorySchema(storySchema)).toEqual(storySchema);
+  });
+
+  it('should accept stories comparing casualties to another marker', () => {
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    addFormats(ajv);
+    const validate = ajv.compile(storySchema);
+    const story = load(readFileSync('src/lib/data/stories/mahsa-arrest/story.yaml', 'utf-8')) as {
+      markers: Record<string, Marker>;
+    };
+    story.markers.killed = { casualties: 1500, killed: true };
+    story.markers.wounded = { casualties: 7000, wounded: true, comparedTo: 'killed' };
+
+    expect(validate(story)).toBe(true);
+    story.markers.wounded = { casualties: 7000, comparedTo: 12 } as unknown as Marker;
+    expect(validate(story)).toBe(false);
+  });
+
+  it('should replace marker definitions in the built schema', () => {
+    const built = buildStorySchema({
+      properties: { markers: { type: 'object' } },
+      definitions: { PlaceMarker: { type: 'object' }, Source: { type: 'object' } },
+    });
+    const definitions = built.definitions as Record<string, { properties?: object }>;
+
+    expect(definitions.Source).toEqual({ type: 'object' });
+    expect(definitions.PlaceMarker.properties).toHaveProperty('within');
+    expect(built.properties).toMatchObject({
+      markers: {
+        type: 'object',
+        additionalProperties: {
+          oneOf: expect.arrayContaining([{ $ref: '#/definitions/PersonMarker' }]),
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Marker Type Registry
+ *
+ * Single source of truth for marker types. Core translation, the pipeline,
+ * the validators and the translate script look marker types up here instead
+ * of keeping their own if-chains.
+ *
+ * Adding a marker type:
+ * 1. Add a module to this directory exporting a definition (see types.ts)
+ * 2. List it in MARKER_TYPES below
+ * 3. Run `npm run generate:story-schema` to update schemas/story.schema.json
+ */
+
+import type { Marker, SourceContext } from '../../types/index.ts';
+import type { MarkerTypeDefinition, JsonSchema } from './types.ts';
+import { sourceMarker } from './source.ts';
+import { imageMarker } from './image.ts';
+import { paragraphBreakMarker } from './paragraph-break.ts';
+import { personMarker } from './person.ts';
+import { placeMarker } from './place.ts';
+import { numberMarker } from './number.ts';
+import { casualtiesMarker } from './casualties.ts';
+import { distanceMarker } from './distance.ts';
+import { dateMarker } from './date.ts';
+import { timeMarker } from './time.ts';
+import { currencyMarker } from './currency.ts';
+import { occupationMarker } from './occupation.ts';
+import { textMarker } from './text.ts';
+import { aliasMarker } from './alias.ts';
+
+export type {
+  MarkerTypeDefinition,
+  MarkerResolveContext,
+  MarkerSegmentContext,
+  MarkerSegment,
+  SegmentStyle,
+  JsonSchema,
+} from './types.ts';
+export type { SourceCityPopulation } from '../source-context.ts';
+export { defineMarkerType } from './types.ts';
+
+/**
+ * Registered marker types, in detection order
+ * Structural types come first: their explicit `type` wins over data
+ * properties (a source marker also has `text` and `number`)
+ */
+export const MARKER_TYPES = [
+  sourceMarker,
+  imageMarker,
+  paragraphBreakMarker,
+  personMarker,
+  placeMarker,
+  numberMarker,
+  casualtiesMarker,
+  distanceMarker,
+  dateMarker,
+  timeMarker,
+  currencyMarker,
+  occupationMarker,
+  textMarker,
+  aliasMarker,
+] as const;
+
+export type MarkerTypeName = (typeof MARKER_TYPES)[number]['type'];
+
+// Definitions are narrowed to their own marker interface; lookups hand them any marker
+const DEFINITIONS = MARKER_TYPES as unknown as readonly MarkerTypeDefinition<MarkerTypeName>[];
+
+/**
+ * Get the definition for a marker (by detection predicate)
+ */
+export function getMarkerDefinition(marker: Marker): MarkerTypeDefinition<MarkerTypeName> | null {
+  return DEFINITIONS.find((definition) => definition.detect(marker)) ?? null;
+}
+
+/**
+ * Get the definition for a marker type name
+ */
+export function getMarkerTypeDefinition(type: string): MarkerTypeDefinition<MarkerTypeName> | null {
+  return DEFINITIONS.find((definition) => definition.type === type) ?? null;
+}
+
+/**
+ * Get all registered marker type names
+ */
+export function getRegisteredMarkerTypes(): MarkerTypeName[] {
+  return DEFINITIONS.map((definition) => definition.type);
+}
+
+/**
+ * Get the original value of a marker (as written in the source story) for display
+ */
+export function getOriginalMarkerValue(marker: Marker, source: SourceContext): string {
+  return getMarkerDefinition(marker)?.original?.(marker, source) ?? '[original]';
+}
+
+// {{key:suffix}} modifiers of any marker, and of markers with these properties
+const COMMON_SUFFIXES = ['original', 'translated'];
+const PROPERTY_SUFFIXES: Record<string, string> = { age: 'age', casualties: 'comparable' };
+
+/**
+ * Suffixes a marker accepts in {{key:suffix}} (forms are also accepted capitalized)
+ */
+export function getMarkerSuffixes(marker: Marker): string[] {
+  return [
+    ...COMMON_SUFFIXES,
+    ...Object.entries(PROPERTY_SUFFIXES)
+      .filter(([property]) => property in marker)
+      .map(([, suffix]) => suffix),
+    ...(getMarkerDefinition(marker)?.forms?.suffixes ?? []),
+  ];
+}
+
+/**
+ * Whether a suffix asks for another form of the marker's value ({{person1:their}})
+ */
+export function hasMarkerForm(marker: Marker, suffix: string | undefined): boolean {
+  const forms = getMarkerDefinition(marker)?.forms;
+  return !!suffix && !!forms?.suffixes.includes(suffix.toLowerCase());
+}
+
+/**
+ * Render another form of a marker's value
+ * @param value - The resolved (or original) value
+ * @returns null if the marker type has no form for the suffix
+ */
+export function renderMarkerForm(
+  marker: Marker,
+  suffix: string | undefined,
+  value: string,
+  language: string
+): string | null {
+  if (!hasMarkerForm(marker, suffix)) return null;
+  return getMarkerDefinition(marker)!.forms!.render(marker, suffix!, value, language);
+}
+
+/**
+ * Build the story schema with marker definitions taken from the registry
+ * Everything else (story fields, sources, images, ...) comes from the base schema
+ */
+export function buildStorySchema(baseSchema: JsonSchema): JsonSchema {
+  const properties = (baseSchema.properties ?? {}) as Record<string, JsonSchema>;
+  const definitions = { ...((baseSchema.definitions ?? {}) as Record<string, JsonSchema>) };
+  const markerRefs: JsonSchema[] = [];
+
+  for (const { schema } of DEFINITIONS) {
+    if (!schema) continue;
+    definitions[schema.name] = schema.definition;
+    markerRefs.push({ $ref: `#/definitions/${schema.name}` });
+  }
+
+  return {
+    ...baseSchema,
+    properties: {
+      ...properties,
+      markers: {
+        ...properties.markers,
+        additionalProperties: { oneOf: markerRefs },
+      },
+    },
+    definitions,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Number marker - generic numeric values, optionally scaled by population
+ */
+
+import type { NumberMarker } from '../../types/index.ts';
+import type { Explanation } from '../explanations.ts';
+import { defineMarkerType } from './types.ts';
+
+export const numberMarker = defineMarkerType<'number', NumberMarker>({
+  type: 'number',
+  detect: (marker) => 'number' in marker,
+  schema: {
+    name: 'NumberMarker',
+    definition: {
+      type: 'object',
+      required: ['number'],
+      properties: {
+        number: { type: 'integer' },
+        scaled: { type: 'boolean' },
+        scaleFactor: { type: 'number', minimum: 0 },
+        variance: { type: 'integer', minimum: 0 },
+        hours: { type: 'boolean' },
+        days: { type: 'boolean' },
+        weeks: { type: 'boolean' },
+        months: { type: 'boolean' },
+        years: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+  },
+  original: (marker) => marker.number.toString(),
+  resolve(marker, context) {
+    const { data } = context;
+    let value = marker.number;
+    let explanation: Explanation | undefined = undefined;
+
+    // Population scaling (optional, author-controlled)
+    if (marker.scaled) {
+      const sourcePopulation = data.source.population;
+      const ratio = data.population / sourcePopulation;
+      const scaleFactor = marker.scaleFactor ?? 1.0; // Default to pure ratio
+      value = Math.round(value * ratio * scaleFactor);
+
+      explanation = {
+        kind: 'population-scaling',
+        operands: {
+          value: marker.number,
+          sourcePopulation,
+          targetPopulation: data.population,
+          ...(scaleFactor !== 1.0 ? { factor: scaleFactor } : {}),
+          result: value,
+        },
+        ratio: ratio * scaleFactor,
+        scope: { type: 'country', name: data.country },
+        source: data.source.name,
+      };
+    }
+
+    // Variance
+    if (marker.variance) {
+      const variance = marker.variance;
+      const rand = context.random('variance');
+      const adjustment = Math.floor((rand - 0.5) * 2 * variance);
+      value += adjustment;
+    }
+
+    return {
+      value: context.format(value),
+      original: context.format(marker.number),
+      explanation,
+      numericValue: value,
+    };
+  },
+  segment: { style: 'strikethrough-muted' },
+});
@@ -0,0 +1,32 @@
+/**
+ * Occupation marker - jobs and professions, kept as-is
+ */
+
+import type { Marker } from '../../types/index.ts';
+import { defineMarkerType } from './types.ts';
+
+interface OccupationMarker {
+  occupation: string;
+}
+
+export const occupationMarker = defineMarkerType<'occupation', OccupationMarker>({
+  type: 'occupation',
+  detect: (marker: Marker) =>
+    'occupation' in marker && typeof (marker as OccupationMarker).occupation === 'string',
+  schema: {
+    name: 'OccupationMarker',
+    definition: {
+      type: 'object',
+      required: ['occupation'],
+      properties: {
+        occupation: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+  },
+  original: (marker) => marker.occupation || '[occupation]',
+  resolve: (marker) => ({
+    value: marker.occupation,
+    original: null,
+  }),
+});
@@ -0,0 +1,16 @@
+/**
+ * Paragraph break marker - content structure
+ * Keeps an explicit `type` field and is never translated
+ */
+
+import type { ParagraphBreakMarker } from '../../types/index.ts';
+import { defineMarkerType } from './types.ts';
+
+export const paragraphBreakMarker = defineMarkerType<'paragraph-break', ParagraphBreakMarker>({
+  type: 'paragraph-break',
+  detect: (marker) => 'type' in marker && marker.type === 'paragraph-break',
+  structural: true,
+  segment: {
+    render: () => ({ text: '\n\n', original: null }),
+  },
+});
@@ -0,0 +1,148 @@
+/**
+ * Person marker - a person whose name is swapped for a local one
+ */
+
+import type {
+  PersonMarker,
+  Gender,
+  CountryNames,
+  NameEntry,
+  NameLists,
+  WeightedName,
+} from '../../types/index.ts';
+import { PERSON_FORMS, formatPersonForm, parsePersonForm } from '../pronouns.ts';
+import { defineMarkerType } from './types.ts';
+import type { MarkerResolveContext } from './types.ts';
+
+export function getPoolKey(gender: Gender): keyof NameLists {
+  return gender === 'm' ? 'male' : gender === 'f' ? 'female' : 'neutral';
+}
+
+function getRegionalPool(names: CountryNames, gender: Gender, region?: string): NameEntry[] | null {
+  const regionalPool = region ? names.regional?.[region]?.[getPoolKey(gender)] : undefined;
+  return regionalPool && regionalPool.length > 0 ? regionalPool : null;
+}
+
+/**
+ * Get the name pool for a gender, preferring the regional pool when one exists
+ */
+export function getNamePool(names: CountryNames, gender: Gender, region?: string): NameEntry[] {
+  return getRegionalPool(names, gender, region) ?? names[getPoolKey(gender)];
+}
+
+/**
+ * Name entry with its weight filled in
+ */
+export function toWeightedName(entry: NameEntry): WeightedName & { weight: number } {
+  return typeof entry === 'string' ? { name: entry, weight: 1 } : { weight: 1, ...entry };
+}
+
+/**
+ * Pick a name no other person in the story got (while any are left)
+ * Pools with weights are sampled by weight; others pick evenly.
+ */
+function selectName(pool: NameEntry[], context: MarkerResolveContext): string {
+  const entries = pool.map(toWeightedName);
+  const weighted = pool.some((entry) => typeof entry !== 'string' && entry.weight !== undefined);
+  if (!weighted) {
+    return context.selectDistinct(
+      entries.map((entry) => entry.name),
+      'person'
+    );
+  }
+  return context.selectWeighted(
+    entries,
+    'person',
+    (entry) => entry.weight,
+    (entry) => entry.name
+  ).name;
+}
+
+/**
+ * Birth decade of someone of this age at the story date (e.g. 1990 for 1990-1999)
+ * @returns null without an age or a valid story date
+ */
+export function getBirthDecade(
+  age: number | undefined,
+  storyDate: string | undefined
+): number | null {
+  const year = storyDate ? new Date(storyDate).getUTCFullYear() : NaN;
+  if (age === undefined || Number.isNaN(year)) return null;
+  return Math.floor((year - age) / 10) * 10;
+}
+
+/**
+ * Get the names of a birth decade, from the closest decade with data for the gender
+ * @returns null if the country has no decade data for the gender
+ */
+export function getGenerationNamePool(
+  names: CountryNames,
+  gender: Gender,
+  decade: number
+): NameEntry[] | null {
+  const key = getPoolKey(gender);
+  const decades = Object.entries(names.decades ?? {})
+    .filter(([, pools]) => (pools[key]?.length ?? 0) > 0)
+    .map(([year]) => Number(year));
+  if (decades.length === 0) return null;
+
+  const closest = decades.reduce((best, year) =>
+    Math.abs(year - decade) < Math.abs(best - decade) ? year : best
+  );
+  return names.decades![closest][key]!;
+}
+
+export const personMarker = defineMarkerType<'person', PersonMarker>({
+  type: 'person',
+  detect: (marker) => 'person' in marker,
+  schema: {
+    name: 'PersonMarker',
+    definition: {
+      type: 'object',
+      required: ['person'],
+      properties: {
+        person: { type: 'string' },
+        gender: { type: 'string', enum: ['m', 'f', 'x'] },
+        age: {
+          type: 'integer',
+          minimum: 0,
+          description: "Age at the story date - picks names common for the person's generation",
+        },
+        from: {
+          type: 'string',
+          description: "Key of a place marker - picks names from that place's regional pool",
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  dependencies: ['from'],
+  original: (marker) => marker.person,
+  resolve(marker, context) {
+    const { names, storyDate } = context.data;
+
+    // Regional names: use the pool for the region of the local city the person is from
+    const region = marker.from ? context.localCity(marker.from)?.region : undefined;
+    const regionalPool = getRegionalPool(names, marker.gender, region);
+
+    // Otherwise a name common for the person's generation, when their age is known
+    const decade = getBirthDecade(marker.age, storyDate);
+    const generationPool =
+      !regionalPool && decade !== null ? getGenerationNamePool(names, marker.gender, decade) : null;
+    if (generationPool) {
+      return { value: selectName(generationPool, context), original: marker.person };
+    }
+
+    const pool = regionalPool ?? names[getPoolKey(marker.gender)];
+    return { value: selectName(pool, context), original: marker.person };
+  },
+  segment: { style: 'strikethrough-muted' },
+  forms: {
+    suffixes: PERSON_FORMS,
+    render(marker, suffix, name, language) {
+      const { form, capitalized } = parsePersonForm(suffix)!;
+      const text = formatPersonForm(form, name, marker.gender, language);
+      return capitalized ? text.charAt(0).toUpperCase() + text.slice(1) : text;
+    },
+  },
+});
@@ -0,0 +1,317 @@
+/**
+ * Place marker - a location, optionally nested in a city marker via `within`
+ * or relocated at a matching relative distance from another place (`distanceFrom`)
+ */
+
+import type { PlaceMarker } from '../../types/index.ts';
+import type { PlacesDataV2, CityData, TranslationResult } from '../core.ts';
+import { haversineKm, spanKm } from '../../utils/geo.ts';
+import { defineMarkerType } from './types.ts';
+import type { JsonSchema, MarkerResolveContext } from './types.ts';
+
+const PLACE_MARKER_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['place'],
+  properties: {
+    place: { type: 'string' },
+    'city-large': { type: 'boolean' },
+    'city-medium': { type: 'boolean' },
+    'city-small': { type: 'boolean' },
+    capital: { type: 'boolean' },
+    population: { type: 'integer', minimum: 0 },
+    region: { type: 'string' },
+    'landmark-protest': { type: 'boolean' },
+    'landmark-monument': { type: 'boolean' },
+    university: { type: 'boolean' },
+    hospital: { type: 'boolean' },
+    morgue: { type: 'boolean' },
+    prison: { type: 'boolean' },
+    'police-station': { type: 'boolean' },
+    'government-facility': { type: 'boolean' },
+    within: { type: 'string' },
+    coordinates: {
+      type: 'object',
+      required: ['lat', 'lon'],
+      properties: {
+        lat: { type: 'number', minimum: -90, maximum: 90 },
+        lon: { type: 'number', minimum: -180, maximum: 180 },
+      },
+      additionalProperties: false,
+    },
+    distanceFrom: { type: 'string' },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * How far (as a share of the country's span) a city may be from the best
+ * distance match and still be picked
+ */
+const DISTANCE_RATIO_TOLERANCE = 0.02;
+
+/**
+ * Mapping of place type properties to their data paths in CityData
+ * This handles special cases like landmarks which are nested
+ */
+const PLACE_TYPE_DATA_PATHS: Record<string, string> = {
+  'landmark-protest': 'landmarks.protest',
+  'landmark-monument': 'landmarks.monument',
+  university: 'universities',
+  hospital: 'hospitals',
+  morgue: 'morgues',
+  prison: 'prisons',
+  'police-station': 'police-stations',
+  'government-facility': 'government-facilities',
+};
+
+/**
+ * Get all place facility types from the schema
+ */
+export function getPlaceFacilityTypes(): Array<{ property: string; dataPath: string }> {
+  const placeMarkerProps = (PLACE_MARKER_SCHEMA.properties || {}) as Record<string, unknown>;
+
+  // Filter out non-facility properties
+  const excludeProps = new Set([
+    'place',
+    'within',
+    'coordinates',
+    'distanceFrom',
+    'region',
+    'capital',
+    'population',
+    'city-large',
+    'city-medium',
+    'city-small',
+  ]);
+
+  return Object.keys(placeMarkerProps)
+    .filter((prop) => !excludeProps.has(prop))
+    .map((prop) => ({
+      property: prop,
+      dataPath: PLACE_TYPE_DATA_PATHS[prop] || `${prop}s`,
+    }));
+}
+
+/**
+ * Get nested value from object using dot notation path
+ */
+export function getNestedValue(obj: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], obj);
+}
+
+/**
+ * Find city by name in places data
+ */
+export function findCityByName(placesData: PlacesDataV2, cityName: string): CityData | null {
+  for (const city of placesData.cities || []) {
+    if (city.name === cityName) {
+      return city;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pick the local city whose distance from the `distanceFrom` city best matches
+ * the source distance, both measured as a share of their country's span
+ * Cities other markers already got are skipped while any are left; seeded
+ * selection breaks ties. Returns null when coordinates are missing.
+ */
+function selectByRelativeDistance(
+  marker: PlaceMarker,
+  cities: CityData[],
+  context: MarkerResolveContext
+): TranslationResult | null {
+  const { data, key } = context;
+  const anchorKey = marker.distanceFrom!;
+  const anchor = context.localCity(anchorKey);
+  const anchorSource = context.sourceCoordinates(anchorKey);
+  const ownSource = context.sourceCoordinates(key);
+  if (!anchor?.coordinates || !anchorSource || !ownSource) return null;
+
+  const sourceSpan = spanKm(data.source.cities.map((c) => c.coordinates));
+  const localSpan = spanKm(
+    data.places.cities.flatMap((c) => (c.coordinates ? [c.coordinates] : []))
+  );
+  if (sourceSpan === 0 || localSpan === 0) return null;
+
+  const located = cities.filter((c) => c.coordinates && c.name !== anchor.name);
+  const taken = context.assigned('place');
+  const free = located.filter((c) => !taken.has(c.name));
+  const candidates = free.length > 0 ? free : located;
+  if (candidates.length === 0) return null;
+
+  const sourceDistance = haversineKm(ownSource, anchorSource);
+  const targetRatio = sourceDistance / sourceSpan;
+  const scored = candidates.map((city) => {
+    const distance = haversineKm(city.coordinates!, anchor.coordinates!);
+    return { city, distance, score: Math.abs(distance / localSpan - targetRatio) };
+  });
+  const best = Math.min(...scored.map((s) => s.score));
+  const pool = scored.filter((s) => s.score <= best + DISTANCE_RATIO_TOLERANCE);
+  const selected = context.selectDistinct(pool, 'place', (s) => s.city.name);
+
+  return {
+    value: selected.city.name,
+    original: marker.place,
+    explanation: {
+      kind: 'relocation',
+      operands: { sourceDistance, sourceSpan, localDistance: selected.distance, localSpan },
+      ratio: targetRatio,
+      scope: { type: 'city', name: selected.city.name },
+      source: data.source.name,
+      names: {
+        place: marker.place,
+        anchor: context.resolve(anchorKey)?.original ?? anchorKey,
+        localAnchor: anchor.name,
+      },
+    },
+  };
+}
+
+export const placeMarker = defineMarkerType<'place', PlaceMarker>({
+  type: 'place',
+  detect: (marker) => 'place' in marker,
+  schema: { name: 'PlaceMarker', definition: PLACE_MARKER_SCHEMA },
+  dependencies: ['within', 'distanceFrom'],
+  original: (marker) => marker.place,
+  resolve(marker, context) {
+    const { data } = context;
+
+    // Check if this place has a parent
+    if (marker.within) {
+      // Resolve parent if not already resolved
+      const parentPlace = context.resolve(marker.within);
+      if (parentPlace) {
+        const cityName = parentPlace.value;
+
+        // Find the city data
+        const cityData = findCityByName(data.places, cityName);
+        if (cityData) {
+          // Determine subcategory
+          let items: string[] = [];
+
+          // Special case: generic landmark (any type)
+          if (marker.landmark && cityData.landmarks) {
+            const allLandmarks = Object.values(cityData.landmarks)
+              .flat()
+              .filter((x): x is string => typeof x === 'string');
+            items = allLandmarks;
+          } else {
+            // Schema-driven facility matching
+            const facilityTypes = getPlaceFacilityTypes();
+            for (const { property, dataPath } of facilityTypes) {
+              const markerHasType = (marker as any)[property] === true;
+              const cityHasData = getNestedValue(cityData, dataPath);
+
+              if (markerHasType && cityHasData && Array.isArray(cityHasData)) {
+                items = cityHasData;
+                break;
+              }
+            }
+          }
+
+          if (items.length > 0) {
+            return {
+              value: context.selectDistinct(items, 'place'),
+              original: marker.place,
+            };
+          }
+        }
+      }
+    }
+
+    // No parent or parent not resolved - use city selection
+    const size = marker['city-large']
+      ? 'large'
+      : marker['city-medium']
+        ? 'medium'
+        : marker['city-small']
+          ? 'small'
+          : null;
+
+    // Keep the relative distance to another place (falls back to size selection)
+    if (marker.distanceFrom && data.places.cities) {
+      const cities = data.places.cities.filter(
+        (c) => (!size || c.size === size) && (!marker.capital || c.capital)
+      );
+      const relocated = selectByRelativeDistance(marker, cities, context);
+      if (relocated) return relocated;
+    }
+
+    if (size && data.places.cities) {
+      // Select from cities of this size, respecting capital requirement
+      const cities = data.places.cities.filter(
+        (c) => c.size === size && (!marker.capital || c.capital)
+      );
+      if (cities.length > 0) {
+        const selectedCity = context.selectDistinct(cities, 'place', (c) => c.name);
+        return {
+          value: selectedCity.name,
+          original: marker.place,
+        };
+      }
+    }
+
+    // If no specific place found, try to find ANY city with the required landmark/facility
+    if (marker['landmark-protest']) {
+      const citiesWithLandmark = data.places.cities.filter(
+        (c) => c.landmarks?.protest && c.landmarks.protest.length > 0
+      );
+      if (citiesWithLandmark.length > 0) {
+        const city = context.select(citiesWithLandmark);
+        return {
+          value: context.selectDistinct(city.landmarks!.protest!, 'place'),
+          original: marker.place,
+        };
+      }
+    }
+
+    if (marker['landmark-monument']) {
+      const citiesWithLandmark = data.places.cities.filter(
+        (c) => c.landmarks?.monument && c.landmarks.monument.length > 0
+      );
+      if (citiesWithLandmark.length > 0) {
+        const city = context.select(citiesWithLandmark);
+        return {
+          value: context.selectDistinct(city.landmarks!.monument!, 'place'),
+          original: marker.place,
+        };
+      }
+    }
+
+    if (marker.university) {
+      const citiesWithUniversities = data.places.cities.filter(
+        (c) => c.universities && c.universities.length > 0
+      );
+      if (citiesWithUniversities.length > 0) {
+        const city = context.select(citiesWithUniversities);
+        return {
+          value: context.selectDistinct(city.universities!, 'place'),
+          original: marker.place,
+        };
+      }
+    }
+
+    if (marker['government-facility']) {
+      const citiesWithFacilities = data.places.cities.filter(
+        (c) => c['government-facilities'] && c['government-facilities'].length > 0
+      );
+      if (citiesWithFacilities.length > 0) {
+        const city = context.select(citiesWithFacilities);
+        return {
+          value: context.selectDistinct(city['government-facilities']!, 'place'),
+          original: marker.place,
+        };
+      }
+    }
+
+    // Last resort fallback - return original
+    return {
+      value: marker.place,
+      original: null,
+      fallbackReason: 'No matching place in the country',
+    };
+  },
+  segment: { style: 'strikethrough-muted' },
+});
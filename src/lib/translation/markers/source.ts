@@ -0,0 +1,24 @@
+/**
+ * Source marker - citation reference, rendered as [n]
+ * Keeps an explicit `type` field and is never translated
+ */
+
+import type { SourceMarker } from '../../types/index.ts';
+import { defineMarkerType } from './types.ts';
+
+export const sourceMarker = defineMarkerType<'source', SourceMarker>({
+  type: 'source',
+  detect: (marker) => 'type' in marker && marker.type === 'source',
+  structural: true,
+  segment: {
+    render: (marker) => ({
+      text: marker.number ? `[${marker.number}]` : `[${marker.text}]`,
+      original: null,
+      tooltip: marker.title,
+      style: 'bold-primary',
+      metadata: {
+        url: marker.url,
+      },
+    }),
+  },
+});
@@ -0,0 +1,31 @@
+/**
+ * Text marker - chants, quotes and other text kept as-is
+ */
+
+import type { Marker } from '../../types/index.ts';
+import { defineMarkerType } from './types.ts';
+
+interface TextMarker {
+  text: string;
+}
+
+export const textMarker = defineMarkerType<'text', TextMarker>({
+  type: 'text',
+  detect: (marker: Marker) => 'text' in marker && typeof marker.text === 'string',
+  schema: {
+    name: 'TextMarker',
+    definition: {
+      type: 'object',
+      required: ['text'],
+      properties: {
+        text: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+  },
+  original: (marker) => marker.text,
+  resolve: (marker) => ({
+    value: marker.text,
+    original: null,
+  }),
+});
@@ -0,0 +1,39 @@
+/**
+ * Time marker - time of day, written as the source writes it (24-hour) and
+ * formatted for the reader's country
+ */
+
+import type { TimeMarker } from '../../types/index.ts';
+import { formatTimeLocalized } from '../../utils/date-locale.ts';
+import { defineMarkerType } from './types.ts';
+
+export const timeMarker = defineMarkerType<'time', TimeMarker>({
+  type: 'time',
+  detect: (marker) => 'time' in marker,
+  schema: {
+    name: 'TimeMarker',
+    definition: {
+      type: 'object',
+      required: ['time'],
+      properties: {
+        time: {
+          type: 'string',
+          pattern: '^\\d{2}:\\d{2}$',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  original: (marker) => marker.time,
+  resolve: (marker) => ({
+    value: marker.time,
+    original: null,
+  }),
+  segment: {
+    style: 'strikethrough-muted',
+    render(marker, { language, country }) {
+      const text = formatTimeLocalized(marker.time, language, country);
+      return { text, original: text !== marker.time ? marker.time : null };
+    },
+  },
+});
@@ -0,0 +1,107 @@
+/**
+ * Marker type definition contract
+ *
+ * Every marker type (person, place, casualties, ...) is described by one
+ * MarkerTypeDefinition: how to detect it, its JSON schema, which properties
+ * reference other markers, how to resolve it for a country and how to render
+ * its segment. See index.ts for the registry.
+ */
+
+import type { Marker, SourceContext, Coordinates } from '../../types/index.ts';
+import type { SourceCityPopulation } from '../source-context.ts';
+import type { TranslationDataV2, TranslationResult, CityData } from '../core.ts';
+
+/**
+ * Visual style of a rendered segment
+ */
+export type SegmentStyle = 'strikethrough-muted' | 'bold-primary' | 'italic-comparison';
+
+/**
+ * JSON schema fragment (draft-07)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Everything a resolver needs to translate one marker
+ */
+export interface MarkerResolveContext {
+  key: string;
+  data: TranslationDataV2;
+  markers: Record<string, Marker>;
+  // Next number in [0, 1) of a named stream of the marker's seed
+  // (`${storyId}-${key}-${country}`, plus `-${readerSeed}` for a reroll - see utils/random.ts)
+  random(stream: string): number;
+  select<T>(items: T[]): T; // Deterministic selection using the marker's 'select' stream
+  // Like select, but skips values other markers of the category already got (while any are left)
+  selectDistinct<T>(items: T[], category: string, valueOf?: (item: T) => string): T;
+  // Like selectDistinct, but more likely to pick items with a higher weight
+  selectWeighted<T>(
+    items: T[],
+    category: string,
+    weightOf: (item: T) => number,
+    valueOf?: (item: T) => string
+  ): T;
+  assigned(category: string): ReadonlySet<string>; // Values selectDistinct and selectWeighted handed out
+  format(value: number, options?: Intl.NumberFormatOptions): string; // Reader's locale
+  resolve(key: string): TranslationResult | null; // Resolve another marker (cached)
+  localCity(key: string): CityData | null; // Local city a place marker ends up in
+  sourceCity(key: string): SourceCityPopulation | null; // Source city of a place marker, if its population is known
+  sourceCoordinates(key: string): Coordinates | null; // Source position of a place marker, if known
+}
+
+/**
+ * Context for markers that render their own segment
+ */
+export interface MarkerSegmentContext {
+  language: string;
+  country: string; // Reader's country, for regional conventions (e.g., 12- or 24-hour times)
+  source: SourceContext; // Country the story comes from
+  contextualizationEnabled: boolean;
+}
+
+/**
+ * Segment fields produced by a custom renderer (type and key are filled in by the pipeline)
+ */
+export interface MarkerSegment {
+  text: string;
+  original?: string | null;
+  tooltip?: string;
+  style?: SegmentStyle;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Definition of a marker type
+ *
+ * Methods receive the marker already narrowed by `detect`.
+ */
+export interface MarkerTypeDefinition<TType extends string = string, TMarker = Marker> {
+  type: TType;
+  detect(marker: Marker): boolean;
+  schema?: {
+    name: string; // Definition name in story.schema.json (e.g., 'PersonMarker')
+    definition: JsonSchema;
+  };
+  dependencies?: readonly string[]; // Properties holding keys of other markers
+  structural?: boolean; // Structure/citation markers that are never translated
+  original?(marker: TMarker, source: SourceContext): string; // Value in the source story
+  resolve?(marker: TMarker, context: MarkerResolveContext): TranslationResult;
+  segment?: {
+    style?: SegmentStyle; // Applied when the resolved marker has an original value
+    render?(marker: TMarker, context: MarkerSegmentContext): MarkerSegment;
+  };
+  // Other forms of the resolved value, for {{key:suffix}} (e.g., {{person1:their}})
+  forms?: {
+    suffixes: readonly string[]; // Lowercase - a capitalized suffix starts a sentence
+    render(marker: TMarker, suffix: string, value: string, language: string): string;
+  };
+}
+
+/**
+ * Define a marker type, keeping its type name as a literal
+ */
+export function defineMarkerType<TType extends string, TMarker = Marker>(
+  definition: MarkerTypeDefinition<TType, TMarker>
+): MarkerTypeDefinition<TType, TMarker> {
+  return definition;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { getNamePoolStats } from './name-pools';
+import type { CountryNames } from '$lib/types';
+
+const NAMES: CountryNames = {
+  female: [
+    { name: 'Emma', weight: 3 },
+    { name: 'Camila', weight: 1, community: 'hispanic' },
+  ],
+  male: [
+    { name: 'Liam', weight: 30 },
+    { name: 'Mateo', weight: 10, community: 'hispanic' },
+    { name: 'Yusuf', weight: 10, community: 'arabic' },
+  ],
+  neutral: ['Alex', 'Sam', 'Alex'],
+  regional: { north: { female: ['Nora', 'Nina'] } },
+  decades: { '1990': { male: ['Jan', 'Jan'] } },
+};
+
+describe('name pool statistics', () => {
+  it('should count names, regional pools and decades', () => {
+    const stats = getNamePoolStats(NAMES);
+
+    expect(stats.sizes).toEqual({ female: 2, male: 3, neutral: 3 });
+    expect(stats.regions).toBe(1);
+    expect(stats.decades).toBe(1);
+    expect(stats.weighted).toBe(true);
+  });
+
+  it('should give each community its average share of picks per gender', () => {
+    const { national } = getNamePoolStats(NAMES).communities;
+
+    expect(national!.hispanic).toBeCloseTo((1 / 4 + 10 / 50) / 3);
+    expect(national!.arabic).toBeCloseTo(10 / 50 / 3);
+  });
+
+  it('should report community shares of regional and decade pools separately', () => {
+    const { communities } = getNamePoolStats({
+      ...NAMES,
+      decades: {
+        '1990': {
+          female: [
+            { name: 'Anna', weight: 3 },
+            { name: 'Maria', weight: 1, community: 'hispanic' },
+          ],
+          male: ['Jan'],
+        },
+      },
+    });
+
+    expect(communities.regional).toEqual({});
+    expect(communities.decades!.hispanic).toBeCloseTo(1 / 4 / 2);
+  });
+
+  it('should list names repeated within a pool', () => {
+    expect(getNamePoolStats(NAMES).duplicates).toEqual(['neutral: Alex', 'decades.1990.male: Jan']);
+  });
+
+  it('should report plain lists as unweighted without communities', () => {
+    const stats = getNamePoolStats({ female: ['Anna'], male: ['Adam'], neutral: ['Alex'] });
+
+    expect(stats.weighted).toBe(false);
+    expect(stats.communities).toEqual({ national: {} });
+    expect(stats.duplicates).toEqual([]);
+  });
+});
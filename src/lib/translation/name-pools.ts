@@ -0,0 +1,100 @@
+/**
+ * Name pool statistics
+ *
+ * How many names each country has to pick from, and how much of its pools
+ * comes from immigrant or minority communities (names.yaml `community` tags, by
+ * weight) - national, regional and birth-decade pools separately, since people
+ * with an age or a home place only draw from the latter. validate-contexts-v2
+ * reports these for every country.
+ */
+
+import type { CountryNames, NameEntry, NameLists } from '../types/index.ts';
+import { toWeightedName } from './markers/person.ts';
+
+const GENDERS: Array<keyof NameLists> = ['female', 'male', 'neutral'];
+
+export interface NamePoolStats {
+  sizes: Record<keyof NameLists, number>; // Names in the national pools
+  regions: number; // Regional pools
+  decades: number; // Birth decades with pools
+  weighted: boolean; // Whether any national pool is sampled by weight
+  // Community -> average share of picks per pool (0-1), for each kind of pool the country has
+  communities: Partial<Record<PoolKind, Record<string, number>>>;
+  duplicates: string[]; // Names listed twice in a pool ('female: Emma', 'regional.quebec.male: Noah')
+}
+
+export type PoolKind = 'national' | 'regional' | 'decades';
+
+/**
+ * Average share of picks each community gets from the pools, so pools weighted on
+ * different scales compare
+ */
+function getCommunityShares(pools: NameEntry[][]): Record<string, number> {
+  const communities: Record<string, number> = {};
+  for (const pool of pools) {
+    const entries = pool.map(toWeightedName);
+    const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+    for (const entry of entries) {
+      if (!entry.community) continue;
+      const share = entry.weight / total / pools.length;
+      communities[entry.community] = (communities[entry.community] ?? 0) + share;
+    }
+  }
+  return communities;
+}
+
+/**
+ * Gender pools of regional or decade pools that have names
+ */
+function getGenderPools(lists: Record<string, Partial<NameLists>> | undefined): NameEntry[][] {
+  return Object.values(lists ?? {}).flatMap((pools) =>
+    GENDERS.map((gender) => pools[gender] ?? []).filter((pool) => pool.length > 0)
+  );
+}
+
+function findDuplicates(pool: NameEntry[], label: string): string[] {
+  const names = pool.map((entry) => toWeightedName(entry).name);
+  return [...new Set(names.filter((name, i) => names.indexOf(name) !== i))].map(
+    (name) => `${label}: ${name}`
+  );
+}
+
+/**
+ * Describe a country's name pools
+ */
+export function getNamePoolStats(names: CountryNames): NamePoolStats {
+  const communities: NamePoolStats['communities'] = {
+    national: getCommunityShares(GENDERS.map((gender) => names[gender])),
+  };
+  const regional = getGenderPools(names.regional);
+  if (regional.length > 0) communities.regional = getCommunityShares(regional);
+  const decades = getGenderPools(names.decades);
+  if (decades.length > 0) communities.decades = getCommunityShares(decades);
+
+  const pools: Array<[string, NameEntry[] | undefined]> = [
+    ...GENDERS.map((gender): [string, NameEntry[]] => [gender, names[gender]]),
+    ...Object.entries(names.regional ?? {}).flatMap(([region, lists]) =>
+      GENDERS.map((gender): [string, NameEntry[] | undefined] => [
+        `regional.${region}.${gender}`,
+        lists[gender],
+      ])
+    ),
+    ...Object.entries(names.decades ?? {}).flatMap(([decade, lists]) =>
+      GENDERS.map((gender): [string, NameEntry[] | undefined] => [
+        `decades.${decade}.${gender}`,
+        lists[gender],
+      ])
+    ),
+  ];
+
+  return {
+    sizes: { female: names.female.length, male: names.male.length, neutral: names.neutral.length },
+    regions: Object.keys(names.regional ?? {}).length,
+    decades: Object.keys(names.decades ?? {}).length,
+    weighted: GENDERS.some((gender) =>
+      names[gender].some((entry) => typeof entry !== 'string' && entry.weight !== undefined)
+    ),
+    communities,
+    duplicates: pools.flatMap(([label, pool]) => (pool ? findDuplicates(pool, label) : [])),
+  };
+}
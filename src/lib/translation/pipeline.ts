@@ -5,63 +5,79 @@
  * Produces normalized segment structure that can be rendered to any target.
  */
 
-import { load as yamlLoad } from 'js-yaml';
-import { translateMarkerV2 } from './core';
-import type { TranslationDataV2, TranslationContext } from './core';
+import { translateMarkerV2, resolveMarkersInOrder } from './core';
+import type { TranslationDataV2, TranslationContext, TranslationResult } from './core';
+import type { MarkerResolutionError } from './resolver';
 import type { Story, Marker } from '$lib/types';
-import { getMarkerType, isSourceMarker, isImageMarker } from '$lib/types';
+import { isAliasMarker } from '$lib/types';
+import { getMarkerDefinition, hasMarkerForm, renderMarkerForm } from './markers';
+import type { MarkerTypeName, SegmentStyle } from './markers';
 import { parseText } from './parser';
-import { formatDateLocalized } from '$lib/utils/date-locale';
-
-// Import YAML files directly (works in browser via Vite)
-import countriesYaml from '$lib/data/contexts/countries.yaml?raw';
-import namesYaml from '$lib/data/contexts/names.yaml?raw';
-import placesYaml from '$lib/data/contexts/places.yaml?raw';
-import comparableEventsYaml from '$lib/data/contexts/comparable-events.yaml?raw';
+import type { PreTranslatedNode } from './pretranslated-parser';
+import { readPreTranslatedFields, TRANSLATED_FIELDS } from './pretranslated-story';
+import type { PreTranslatedFields } from './pretranslated-story';
+import { checkStaleness, computeBuiltFrom, describeStaleness } from './staleness';
+import type { BuiltFrom } from './staleness';
+import { getSourceContext, getExchangeRate } from './source-context';
+import type { Explanation } from './explanations';
+import { isContextualized } from './contextualization';
+import type { ContextualizationMask } from './contextualization';
+
+// Story and context YAML, parsed and schema-checked at build time (scripts/vite-plugin-yaml-data.ts)
+import countriesData from '$lib/data/contexts/countries.yaml';
+import namesData from '$lib/data/contexts/names.yaml';
+import placesData from '$lib/data/contexts/places.yaml';
+import comparableEventsData from '$lib/data/contexts/comparable-events.yaml';
+import comparisonPhrasesData from '$lib/data/contexts/comparison-phrases.yaml';
+import sourceContextsData from '$lib/data/contexts/source-contexts.yaml';
+import countryLanguagesData from '$lib/data/contexts/country-languages.yaml';
 
 // Dynamically import all story files
-const storyFiles = import.meta.glob('$lib/data/stories/*/story.yaml', {
-  query: '?raw',
+const storyFiles = import.meta.glob<Story>('$lib/data/stories/*/story.yaml', {
   eager: true,
   import: 'default',
-}) as Record<string, string>;
+});
 
 // Dynamically import all pre-translated stories
-const preTranslatedFiles = import.meta.glob('$lib/data/stories/*/story.*.yaml', {
-  query: '?raw',
-  eager: true,
-  import: 'default',
-}) as Record<string, string>;
-
-// Parse YAML once at module load (not on every function call!)
-const PARSED_COUNTRIES = (yamlLoad(countriesYaml) as any).countries;
-const PARSED_NAMES = yamlLoad(namesYaml) as any;
-const PARSED_PLACES = yamlLoad(placesYaml) as any;
-const PARSED_COMPARABLE_EVENTS = yamlLoad(comparableEventsYaml) as any;
+const preTranslatedFiles = import.meta.glob<Record<string, unknown>>(
+  '$lib/data/stories/*/story.*.yaml',
+  { eager: true, import: 'default' }
+);
+
+// Language story.yaml is written in (runtime translation renders its text)
+const STORY_LANGUAGE = 'en';
+
+const PARSED_COUNTRIES = countriesData.countries;
+const PARSED_NAMES = namesData;
+const PARSED_PLACES = placesData;
+const PARSED_COMPARABLE_EVENTS = comparableEventsData;
+const PARSED_COMPARISON_PHRASES = comparisonPhrasesData;
+const PARSED_SOURCE_CONTEXTS = sourceContextsData['source-contexts'];
+const PARSED_PRETRANSLATED_FALLBACKS = countryLanguagesData.pretranslated_fallbacks ?? {};
 
 // Build story map from imported files
-const STORY_DATA: Record<string, string> = {};
-for (const [path, content] of Object.entries(storyFiles)) {
+const STORY_DATA: Record<string, Story> = {};
+for (const [path, story] of Object.entries(storyFiles)) {
   // Extract slug from path: /src/lib/data/stories/mahsa-arrest/story.yaml -> mahsa-arrest
   const match = path.match(/stories\/([^/]+)\/story\.yaml$/);
   if (match) {
-    STORY_DATA[match[1]] = content;
+    STORY_DATA[match[1]] = story;
   }
 }
 
 // Build pre-translated story map
-const PRETRANSLATED_STORIES: Record<string, string> = {};
-for (const [path, content] of Object.entries(preTranslatedFiles)) {
+const PRETRANSLATED_STORIES: Record<string, Record<string, unknown>> = {};
+for (const [path, story] of Object.entries(preTranslatedFiles)) {
   // Extract slug and locale: /src/lib/data/stories/mahsa-arrest/story.fr-be.yaml -> mahsa-arrest:fr-be
   const match = path.match(/stories\/([^/]+)\/story\.([a-z]{2}-[a-z]{2})\.yaml$/);
   if (match) {
-    PRETRANSLATED_STORIES[`${match[1]}:${match[2]}`] = content;
+    PRETRANSLATED_STORIES[`${match[1]}:${match[2]}`] = story;
   }
 }
 
-// Cache parsed stories
-const PARSED_STORIES: Record<string, Story> = {};
-const PARSED_PRETRANSLATED: Record<string, Story> = {};
+// Cache read pre-translated stories
+const PARSED_PRETRANSLATED: Record<string, PreTranslatedFields> = {};
+const CURRENT_BUILT_FROM: Record<string, BuiltFrom> = {};
 
 // ============================================================================
 // Type Definitions
@@ -72,26 +88,26 @@ export interface TranslationInput {
   country: string;
   language: string;
   contextualizationEnabled: boolean;
+  contextualization?: Partial<ContextualizationMask>; // Categories to contextualize (default: all)
+  // Reader's reroll: other names, places and events than everyone else in the country sees.
+  // Pre-translated text keeps its sentences with marker values re-resolved.
+  seed?: string;
   preferredTranslationSource?: 'pre-translated' | 'runtime' | 'auto'; // default: 'auto'
+  stalePreTranslated?: 'keep' | 'runtime'; // Out-of-date pre-translated files (default: 'keep')
+  // No pre-translated file for the country: reuse another country's (country-languages.yaml
+  // `pretranslated_fallbacks`) with marker values re-resolved, or translate at runtime
+  // (default: 'recontextualize')
+  preTranslatedFallback?: 'recontextualize' | 'runtime';
 }
 
 export interface NormalizedSegment {
   text: string;
   original: string | null; // Match TranslatedSegment type
   tooltip?: string;
-  type:
-    | 'text'
-    | 'person'
-    | 'place'
-    | 'number'
-    | 'date'
-    | 'source'
-    | 'image'
-    | 'comparison'
-    | 'paragraph-break'
-    | 'casualties';
+  explanation?: Explanation; // Math behind the value, formatted for the reader by the tooltip
+  type: 'text' | 'comparison' | 'paragraph-break' | MarkerTypeName;
   key: string | null; // Match TranslatedSegment type
-  style?: 'strikethrough-muted' | 'bold-primary' | 'italic-comparison';
+  style?: SegmentStyle;
   metadata?: {
     url?: string; // For sources
     src?: string; // For images
@@ -100,11 +116,17 @@ export interface NormalizedSegment {
     contentWarning?: string; // For images
     credit?: string; // For images
     creditUrl?: string; // For images
-    explanation?: string; // For tooltips
     [key: string]: any;
   };
 }
 
+export interface TranslationDiagnostic {
+  severity: 'warning' | 'error';
+  key: string | null; // Marker the diagnostic is about
+  fallback?: string; // What was rendered instead (e.g., '{{key}}' or the Iranian place name)
+  reason: string;
+}
+
 export interface TranslatedStoryOutput {
   id: string;
   slug: string;
@@ -115,8 +137,11 @@ export interface TranslatedStoryOutput {
     country: string;
     language: string;
     contextualized: boolean;
-    translationSource: 'pre-translated' | 'runtime';
+    translationSource: 'pre-translated' | 'pre-translated-stale' | 'runtime';
+    preTranslatedLocale?: string; // File the text came from (e.g., 'de-de' for a reader in BE)
+    recontextualized: boolean; // Text from another country's file, marker values re-resolved
   };
+  diagnostics: TranslationDiagnostic[]; // Problems found while translating (`?debug=1` shows them)
   // Preserve original story metadata
   date: string;
   tags: string[];
@@ -129,9 +154,19 @@ export interface TranslatedStoryOutput {
   meta?: any;
 }
 
+/**
+ * What a re-contextualized file's marker values were built from
+ */
+interface BuiltValues {
+  context: Context; // The file's country, without a reroll
+  values: Map<string, string[]>; // Local values of each marker in the file
+}
+
 interface Context {
   data: TranslationDataV2;
   translationContext: TranslationContext;
+  resolutionErrors: MarkerResolutionError[]; // Cycles and dangling references between markers
+  diagnostics: TranslationDiagnostic[];
 }
 
 // ============================================================================
@@ -142,23 +177,69 @@ export function translateStory(input: TranslationInput): TranslatedStoryOutput {
   // 1. Load original story (always needed for markers)
   const originalStory = loadOriginalStory(input.storySlug);
 
-  // 2. Try to load pre-translated version
-  const preTranslatedStory = loadPreTranslatedStory(input.storySlug, input.language, input.country);
+  // 2. Try to load pre-translated version (the country's, or one to re-contextualize)
+  const found = findPreTranslatedStory(input);
+  const preTranslatedStory = found?.fields ?? null;
+  const recontextualize =
+    found !== null && (found.country !== input.country || input.seed !== undefined);
 
   // 3. Load context data (needed for runtime translation fallback)
   const context = loadContextForCountry(
     input.country,
     input.language,
     originalStory.id,
-    originalStory.markers || {}
+    originalStory.markers || {},
+    originalStory['source-country'],
+    originalStory.date,
+    input.seed
   );
 
+  // What the re-contextualized file's values were built from (its country, no reroll)
+  const builtFrom: BuiltValues | null = recontextualize
+    ? {
+        context: loadContextForCountry(
+          found!.country,
+          input.language,
+          originalStory.id,
+          originalStory.markers || {},
+          originalStory['source-country'],
+          originalStory.date
+        ),
+        values: getMarkerValues(preTranslatedStory!),
+      }
+    : null;
+
   // 4. Decide which path to use
+  const staleness = preTranslatedStory
+    ? checkStaleness(
+        preTranslatedStory.builtFrom,
+        getCurrentBuiltFrom(input.storySlug, found!.country, originalStory)
+      )
+    : null;
+  const isStale = staleness?.stale === true;
   const usePreTranslated =
-    preTranslatedStory !== null && input.preferredTranslationSource !== 'runtime';
+    preTranslatedStory !== null &&
+    input.preferredTranslationSource !== 'runtime' &&
+    !(isStale && input.stalePreTranslated === 'runtime');
 
   const isPreTranslated = usePreTranslated;
 
+  // The story or context data changed since the file was translated
+  if (staleness?.stale) {
+    context.diagnostics.push({
+      severity: 'warning',
+      key: null,
+      reason: `Pre-translated file is out of date (${describeStaleness(staleness)})${isPreTranslated ? '' : ' - translated at runtime'}`,
+    });
+  }
+
+  // Broken marker syntax in the pre-translated file renders as plain text
+  if (isPreTranslated) {
+    for (const error of preTranslatedStory!.errors) {
+      context.diagnostics.push({ severity: 'error', key: null, reason: `Pre-translated ${error}` });
+    }
+  }
+
   // 5. Translate all text fields
   const title = isPreTranslated
     ? parsePreTranslatedText(
@@ -167,7 +248,9 @@ export function translateStory(input: TranslationInput): TranslatedStoryOutput {
         context,
         input,
         originalStory.sources,
-        originalStory.images
+        originalStory.images,
+        recontextualize ? getComparableKeys(originalStory.title, originalStory.markers) : null,
+        builtFrom
       )
     : translateRuntimeText(
         originalStory.title,
@@ -185,7 +268,9 @@ export function translateStory(input: TranslationInput): TranslatedStoryOutput {
         context,
         input,
         originalStory.sources,
-        originalStory.images
+        originalStory.images,
+        recontextualize ? getComparableKeys(originalStory.summary, originalStory.markers) : null,
+        builtFrom
       )
     : translateRuntimeText(
         originalStory.summary,
@@ -203,7 +288,9 @@ export function translateStory(input: TranslationInput): TranslatedStoryOutput {
         context,
         input,
         originalStory.sources,
-        originalStory.images
+        originalStory.images,
+        recontextualize ? getComparableKeys(originalStory.content, originalStory.markers) : null,
+        builtFrom
       )
     : translateRuntimeText(
         originalStory.content,
@@ -224,8 +311,15 @@ export function translateStory(input: TranslationInput): TranslatedStoryOutput {
       country: input.country,
       language: input.language,
       contextualized: input.contextualizationEnabled,
-      translationSource: isPreTranslated ? 'pre-translated' : 'runtime',
+      translationSource: !isPreTranslated
+        ? 'runtime'
+        : isStale
+          ? 'pre-translated-stale'
+          : 'pre-translated',
+      preTranslatedLocale: isPreTranslated ? found!.locale : undefined,
+      recontextualized: isPreTranslated && recontextualize,
     },
+    diagnostics: context.diagnostics,
     // Preserve original metadata
     date: originalStory.date,
     tags: originalStory.tags,
@@ -244,11 +338,14 @@ export function translateStory(input: TranslationInput): TranslatedStoryOutput {
 // ============================================================================
 
 /**
- * Parse pre-translated text with [[MARKER:...]] and [[COMPARISON:...]] formats
+ * Render a pre-translated field (markers, comparisons and text from either file format)
  * Also handles {{placeholder}} markers that need runtime translation
+ * @param comparableKeys - Set when re-contextualizing another country's file: marker values
+ *   are re-resolved for the reader's country, and comparisons (in order) for these markers
+ * @param builtFrom - When re-contextualizing, what the file's values were built from
  */
 function parsePreTranslatedText(
-  text: string,
+  paragraphs: PreTranslatedNode[][],
   markers: Record<string, Marker>,
   context: Context,
   input: TranslationInput,
@@ -261,110 +358,89 @@ function parsePreTranslatedText(
     contentWarning?: string;
     credit?: string;
     creditUrl?: string;
-  }>
+  }>,
+  comparableKeys: string[] | null = null,
+  builtFrom: BuiltValues | null = null
 ): NormalizedSegment[] {
   const segments: NormalizedSegment[] = [];
+  let comparisonIndex = 0;
 
-  // Split by paragraphs first
-  const paragraphs = text.split(/\n+/).filter((p) => p.trim());
-
-  paragraphs.forEach((paragraph, pIdx) => {
-    // Combined regex for:
-    // 1. [[MARKER:type:key:original|value|explanation]]
-    // 2. [[COMPARISON:original|translated|explanation]]
-    // 3. {{{{key:suffix}}:type}} (escaped format from translation)
-    // 4. {{key}} or {{key:suffix}} (placeholders)
-    const regex =
-      /(\[\[MARKER:([^:]+):([^:]+):([^|]+)\|([^|\]]+)(?:\|([^\]]+))?\]\])|(\[\[COMPARISON:([^|]+)\|([^|]+)\|([^\]]+)\]\])|(\{\{\{\{([^:}]+):([^}]+)\}\}:([^}]+)\}\})|(\{\{([^:}]+)(?::([^}]+))?\}\})/g;
-
-    let lastIndex = 0;
-    let match;
-
-    while ((match = regex.exec(paragraph)) !== null) {
-      // Add text before marker
-      if (match.index > lastIndex) {
-        const plainText = paragraph.substring(lastIndex, match.index);
-        if (plainText) {
-          segments.push({
-            text: plainText,
-            type: 'text',
-            original: null,
-            key: null,
-          });
-        }
-      }
+  paragraphs.forEach((nodes, pIdx) => {
+    for (const node of nodes) {
+      // Another country's file (or a reroll): the re-resolved value, inflected like the file's
+      const recontextualized =
+        node.type === 'marker' && builtFrom && markers[node.key]
+          ? recontextualizeMarker(node, markers[node.key], builtFrom, context, input)
+          : null;
 
-      if (match[1]) {
+      if (node.type === 'text') {
+        segments.push({
+          text: node.text,
+          type: 'text',
+          original: null,
+          key: null,
+        });
+      } else if (recontextualized) {
+        segments.push(recontextualized);
+      } else if (node.type === 'marker' && hasOwnRendering(markers[node.key])) {
+        // Dates and times: rendered for the reader unless the file localized them, original as at runtime
+        const rendered = translateSingleMarker(
+          node.key,
+          undefined,
+          markers[node.key],
+          context,
+          input
+        );
+        segments.push(node.value === node.original ? rendered : { ...rendered, text: node.value });
+      } else if (node.type === 'marker') {
         // [[MARKER:type:key:original|value|explanation]]
-        const [, , type, key, original, value, explanation] = match;
+        const { markerType, key, original, value, explanation } = node;
+        const nested = resolveNestedPlaceholders(key, value, markers, context, input);
 
         segments.push({
-          text: value,
+          text: nested.text,
           original: original,
+          // Files translated before explanations were structured carry a sentence
           tooltip:
-            explanation || (input.contextualizationEnabled ? `Original: ${original}` : undefined),
-          type: type as any,
+            typeof explanation === 'string'
+              ? explanation
+              : showsLocalValue(input, markerType)
+                ? `Original: ${original}`
+                : undefined,
+          explanation: typeof explanation === 'object' ? explanation : nested.explanation,
+          type: markerType as NormalizedSegment['type'],
           key: key,
           style: 'strikethrough-muted',
         });
-      } else if (match[7]) {
+      } else if (node.type === 'comparison' && comparableKeys) {
+        // Another country's comparison - compare with the reader's country instead
+        const key = comparableKeys[comparisonIndex++];
+        if (key) {
+          segments.push(translateSingleMarker(key, 'comparable', markers[key], context, input));
+        } else {
+          context.diagnostics.push({
+            severity: 'warning',
+            key: null,
+            reason: `Comparison "${node.translated}" has no {{key:comparable}} in the story - not re-contextualized`,
+          });
+        }
+      } else if (node.type === 'comparison') {
         // [[COMPARISON:original|translated|explanation]]
-        const [, , , , , , , , original, translated, explanation] = match;
+        const { explanation } = node;
 
         segments.push({
-          text: translated,
-          tooltip: explanation,
+          text: node.translated,
+          tooltip: typeof explanation === 'string' ? explanation : undefined,
+          explanation: typeof explanation === 'object' ? explanation : undefined,
           type: 'comparison',
           key: null,
           original: null,
           style: 'italic-comparison',
-          metadata: { original },
+          metadata: { original: node.original },
         });
-      } else if (match[11]) {
-        // {{{{key:suffix}}:type}} - escaped format from translation
-        const _key = match[12]; // Extracted but not used in current logic
-        const suffix = match[13];
-        const type = match[14];
-
-        // Handle special keys (source and image)
-        if (type === 'source' && sources) {
-          const source = sources.find((s) => s.id === suffix);
-          if (source) {
-            segments.push({
-              text: `[${source.number}]`,
-              type: 'source',
-              key: suffix,
-              original: null,
-              style: 'bold-primary',
-              metadata: {
-                url: source.url,
-                title: source.title,
-              },
-            });
-          }
-        } else if (type === 'image' && images) {
-          const image = images.find((img) => img.id === suffix);
-          if (image) {
-            segments.push({
-              text: '',
-              type: 'image',
-              key: suffix,
-              original: null,
-              metadata: {
-                src: image.src,
-                alt: image.alt,
-                caption: image.caption,
-                contentWarning: image.contentWarning,
-                credit: image.credit,
-                creditUrl: image.creditUrl,
-              },
-            });
-          }
-        }
-      } else if (match[15]) {
+      } else {
         // {{key}} or {{key:suffix}} - placeholder that needs runtime translation
-        const key = match[16];
-        const suffix = match[17];
+        const { key, suffix } = node;
 
         // Handle special keys
         if (key === 'source' && suffix && sources) {
@@ -381,6 +457,8 @@ function parsePreTranslatedText(
                 title: source.title,
               },
             });
+          } else {
+            reportMissingReference(context, 'Source', suffix);
           }
         } else if (key === 'image' && suffix && images) {
           const image = images.find((img) => img.id === suffix);
@@ -399,6 +477,8 @@ function parsePreTranslatedText(
                 creditUrl: image.creditUrl,
               },
             });
+          } else {
+            reportMissingReference(context, 'Image', suffix);
           }
         } else {
           // Regular marker - do runtime translation
@@ -408,8 +488,10 @@ function parsePreTranslatedText(
             segments.push(runtimeSegment);
           } else {
             // Marker not found
+            const text = `{{${key}${suffix ? ':' + suffix : ''}}}`;
+            reportMissingReference(context, 'Marker', key, text);
             segments.push({
-              text: `{{${key}${suffix ? ':' + suffix : ''}}}`,
+              text,
               type: 'text',
               original: null,
               key: null,
@@ -417,21 +499,6 @@ function parsePreTranslatedText(
           }
         }
       }
-
-      lastIndex = match.index + match[0].length;
-    }
-
-    // Add remaining text
-    if (lastIndex < paragraph.length) {
-      const remaining = paragraph.substring(lastIndex);
-      if (remaining) {
-        segments.push({
-          text: remaining,
-          type: 'text',
-          original: null,
-          key: null,
-        });
-      }
     }
 
     // Add paragraph break (except after last paragraph)
@@ -448,6 +515,121 @@ function parsePreTranslatedText(
   return segments;
 }
 
+/**
+ * Re-resolve a marker of a re-contextualized file, carrying the inflection of the file's
+ * local value over ("Lenas Festnahme" becomes "Jessicas Festnahme")
+ * @returns null to keep the file's segment: the value doesn't change, it has placeholders
+ *   (resolved at runtime anyway) or its inflection isn't a prefix or suffix
+ */
+function recontextualizeMarker(
+  node: Extract<PreTranslatedNode, { type: 'marker' }>,
+  marker: Marker,
+  builtFrom: BuiltValues,
+  context: Context,
+  input: TranslationInput
+): NormalizedSegment | null {
+  if (node.value.includes('{{')) return null;
+  const segment = translateSingleMarker(node.key, undefined, marker, context, input);
+  const built = translateSingleMarker(node.key, undefined, marker, builtFrom.context, input).text;
+  if (segment.text === built) return null;
+
+  // The value the file was built from - or, for files translated before the data changed,
+  // its shortest local value for the marker that the form contains
+  const plain = [built, ...(builtFrom.values.get(node.key) ?? [])].find((value) =>
+    node.value.includes(value)
+  );
+  const text = plain ? reinflect(node.value, plain, segment.text) : null;
+  if (text === null) {
+    context.diagnostics.push({
+      severity: 'warning',
+      key: node.key,
+      fallback: node.value,
+      reason: `Pre-translated value "${node.value}" is not an inflection of "${built}" - not re-contextualized`,
+    });
+    return null;
+  }
+
+  return {
+    ...segment,
+    text,
+    original: node.original,
+    tooltip: showsLocalValue(input, segment.type) ? `Original: ${node.original}` : undefined,
+    style: 'strikethrough-muted',
+  };
+}
+
+/**
+ * Local values of each marker in a pre-translated file, shortest first
+ */
+function getMarkerValues(fields: PreTranslatedFields): Map<string, string[]> {
+  const values = new Map<string, string[]>();
+  for (const field of TRANSLATED_FIELDS) {
+    for (const node of fields[field].flat()) {
+      if (node.type !== 'marker') continue;
+      values.set(node.key, [...(values.get(node.key) ?? []), node.value]);
+    }
+  }
+  for (const list of values.values()) list.sort((a, b) => a.length - b.length);
+  return values;
+}
+
+/**
+ * Apply the prefix and suffix an inflected form adds to a value to another value
+ * @returns null if the form doesn't contain the value
+ */
+function reinflect(form: string, value: string, replacement: string): string | null {
+  const index = value ? form.indexOf(value) : -1;
+  if (index === -1) return null;
+  return form.slice(0, index) + replacement + form.slice(index + value.length);
+}
+
+/**
+ * Resolve {{key}} placeholders the translate script left inside a MARKER value
+ * (e.g., [[MARKER:place:square:Azadi-Platz|{{square}}]]) with runtime translation.
+ * The file's translated original is kept; each placeholder is reported so stale
+ * files can be re-translated.
+ */
+function resolveNestedPlaceholders(
+  markerKey: string,
+  value: string,
+  markers: Record<string, Marker>,
+  context: Context,
+  input: TranslationInput
+): { text: string; explanation?: Explanation } {
+  const tokens = parseText(value);
+  if (!tokens.some((token) => token.type === 'marker')) {
+    return { text: value };
+  }
+
+  let explanation: Explanation | undefined;
+  const text = tokens
+    .map((token) => {
+      if (token.type === 'text' || !token.markerKey) return token.value;
+
+      const marker = markers[token.markerKey];
+      if (!marker) {
+        context.diagnostics.push({
+          severity: 'error',
+          key: markerKey,
+          reason: `Pre-translated value contains unknown placeholder ${token.value}`,
+        });
+        return token.value;
+      }
+
+      context.diagnostics.push({
+        severity: 'warning',
+        key: markerKey,
+        reason: `Pre-translated value contains placeholder ${token.value}, resolved at runtime`,
+      });
+      const segment = translateSingleMarker(token.markerKey, token.suffix, marker, context, input);
+      explanation ??= segment.explanation;
+      return segment.text;
+    })
+    .join('');
+
+  return { text, explanation };
+}
+
 // ============================================================================
 // Path 2: Runtime Translation
 // ============================================================================
@@ -504,6 +686,8 @@ function translateRuntimeText(
                 url: source.url,
               },
             });
+          } else {
+            reportMissingReference(context, 'Source', token.suffix);
           }
           continue;
         }
@@ -525,6 +709,8 @@ function translateRuntimeText(
                 creditUrl: image.creditUrl,
               },
             });
+          } else {
+            reportMissingReference(context, 'Image', token.suffix);
           }
           continue;
         }
@@ -532,6 +718,7 @@ function translateRuntimeText(
         // Regular marker
         const marker = markers[token.markerKey];
         if (!marker) {
+          reportMissingReference(context, 'Marker', token.markerKey, `{{${token.markerKey}}}`);
           segments.push({
             text: `{{${token.markerKey}}}`,
             type: 'text',
@@ -547,7 +734,8 @@ function translateRuntimeText(
           token.suffix,
           marker,
           context,
-          input
+          input,
+          STORY_LANGUAGE
         );
         segments.push(segment);
       }
@@ -569,16 +757,17 @@ function translateRuntimeText(
 
 /**
  * Translate a single marker to a normalized segment
+ * @param textLanguage - Language of the text around the marker, for pronouns and
+ *   possessives (story.yaml is English; pre-translated text is the reader's)
  */
 function translateSingleMarker(
   key: string,
   suffix: string | undefined,
   marker: Marker,
   context: Context,
-  input: TranslationInput
+  input: TranslationInput,
+  textLanguage = input.language
 ): NormalizedSegment {
-  const markerType = getMarkerType(marker);
-
   // Handle suffixes
   if (suffix === 'age' && 'age' in marker) {
     return {
@@ -591,11 +780,11 @@ function translateSingleMarker(
 
   if (suffix === 'comparable' && 'casualties' in marker) {
     // Get comparison from translateMarkerV2
-    const result = translateMarkerV2(key, marker, context.data, context.translationContext);
+    const result = resolveMarker(key, marker, context);
     if (result.comparison) {
       return {
         text: result.comparison,
-        tooltip: result.comparisonExplanation,
+        explanation: result.comparisonExplanation,
         type: 'comparison',
         key: key,
         original: null,
@@ -612,7 +801,7 @@ function translateSingleMarker(
   }
 
   if (suffix === 'original') {
-    const result = translateMarkerV2(key, marker, context.data, context.translationContext);
+    const result = resolveMarker(key, marker, context);
     return {
       text: result.original || result.value,
       type: 'text',
@@ -622,7 +811,7 @@ function translateSingleMarker(
   }
 
   if (suffix === 'translated') {
-    const result = translateMarkerV2(key, marker, context.data, context.translationContext);
+    const result = resolveMarker(key, marker, context);
     return {
       text: result.value,
       type: 'text',
@@ -631,71 +820,67 @@ function translateSingleMarker(
     };
   }
 
-  // Handle dates specially
-  if (markerType === 'date') {
-    const dateValue = (marker as any).date;
-    let formatted = dateValue;
-    try {
-      formatted = formatDateLocalized(dateValue, input.language);
-    } catch {
-      // Keep original if formatting fails
+  // Pronouns and possessives ({{person1:their}}), also of the person an alias points to
+  const target = getAliasTarget(marker, context.translationContext.markers);
+  if (hasMarkerForm(target, suffix)) {
+    const result = resolveMarker(key, marker, context);
+    const text = renderMarkerForm(target, suffix, result.value, textLanguage)!;
+    const original = result.original
+      ? renderMarkerForm(target, suffix, result.original, textLanguage)
+      : null;
+    // Pronouns read the same either way; possessives keep the original name
+    if (!original || original === text) {
+      return { text, type: 'text', key: key, original: null };
     }
+    const segmentType = getMarkerDefinition(target)?.type ?? 'text';
     return {
-      text: formatted,
-      type: 'date',
+      text,
+      original,
+      tooltip: showsLocalValue(input, segmentType) ? `Original: ${original}` : undefined,
+      type: segmentType,
       key: key,
-      original: null,
-    };
-  }
-
-  // Backwards compatibility: old source/image markers
-  if (isSourceMarker(marker)) {
-    const sourceMarker = marker as any;
-    return {
-      text: sourceMarker.number ? `[${sourceMarker.number}]` : `[${sourceMarker.text}]`,
-      tooltip: sourceMarker.title,
-      type: 'source',
-      key: key,
-      original: null,
-      style: 'bold-primary',
-      metadata: {
-        url: sourceMarker.url,
-      },
+      style: getMarkerDefinition(target)?.segment?.style,
     };
   }
 
-  if (isImageMarker(marker)) {
-    const imageMarker = marker as any;
+  // Marker types with their own rendering (dates, sources, images)
+  const definition = getMarkerDefinition(marker);
+  // Aliases show as the marker they point to (as in pre-translated files)
+  const segmentType =
+    getMarkerDefinition(getAliasTarget(marker, context.translationContext.markers))?.type ?? 'text';
+  if (definition?.segment?.render) {
+    const rendered = definition.segment.render(marker, {
+      language: input.language,
+      country: input.country,
+      source: context.data.source,
+      contextualizationEnabled: showsLocalValue(input, segmentType),
+    });
+    const original = rendered.original ?? null;
     return {
-      text: '',
-      type: 'image',
+      tooltip:
+        original && showsLocalValue(input, segmentType) ? `Original: ${original}` : undefined,
+      style: original ? definition.segment.style : undefined,
+      ...rendered,
+      original,
+      type: segmentType,
       key: key,
-      original: null,
-      metadata: {
-        src: imageMarker.src,
-        alt: imageMarker.alt,
-        caption: imageMarker.caption,
-        contentWarning: imageMarker.contentWarning,
-        credit: imageMarker.credit,
-        creditUrl: imageMarker.creditUrl,
-      },
     };
   }
 
   // Use core translation for all other types
-  const result = translateMarkerV2(key, marker, context.data, context.translationContext);
+  const result = resolveMarker(key, marker, context);
 
   return {
     text: result.value,
     original: result.original || null,
     tooltip:
-      result.explanation ||
-      (result.original && input.contextualizationEnabled
+      result.original && showsLocalValue(input, segmentType)
         ? `Original: ${result.original}`
-        : undefined),
-    type: markerType as any,
+        : undefined,
+    explanation: result.explanation,
+    type: segmentType,
     key: key,
-    style: result.original ? 'strikethrough-muted' : undefined,
+    style: result.original ? definition?.segment?.style : undefined,
   };
 }
 
@@ -704,33 +889,112 @@ function translateSingleMarker(
 // ============================================================================
 
 /**
- * Load original story from story.yaml
- * Uses cache to avoid re-parsing YAML on every call
+ * Report a {{key}}, {{source:id}} or {{image:id}} reference to something story.yaml
+ * doesn't define (once per reference)
+ * @param fallback - Rendered instead (left out if not given)
  */
-function loadOriginalStory(storySlug: string): Story {
-  // Check cache first
-  if (PARSED_STORIES[storySlug]) {
-    return PARSED_STORIES[storySlug];
+function reportMissingReference(context: Context, kind: string, key: string, fallback = '') {
+  const reason = `${kind} not defined in story.yaml`;
+  if (context.diagnostics.some((d) => d.key === key && d.reason === reason)) return;
+  context.diagnostics.push({ severity: 'error', key, fallback, reason });
+}
+
+/**
+ * Diagnostics for markers that resolved to a stand-in value: broken references
+ * between markers (errors) and values no data matched (warnings)
+ */
+function getResolutionDiagnostics(
+  resolutionErrors: MarkerResolutionError[],
+  resolved: Map<string, TranslationResult>
+): TranslationDiagnostic[] {
+  const diagnostics = resolutionErrors.map((error): TranslationDiagnostic => {
+    const result = resolved.get(error.key);
+    return {
+      severity: 'error',
+      key: error.key,
+      fallback: result?.fallbackReason ? result.value : undefined,
+      reason: error.message,
+    };
+  });
+
+  for (const [key, result] of resolved) {
+    if (!result.fallbackReason || resolutionErrors.some((error) => error.key === key)) continue;
+    diagnostics.push({
+      severity: 'warning',
+      key,
+      fallback: result.value,
+      reason: result.fallbackReason,
+    });
   }
+  return diagnostics;
+}
 
-  // Parse and cache
-  const storyYaml = STORY_DATA[storySlug];
-  if (!storyYaml) {
-    throw new Error(`Story not found: ${storySlug}`);
+/**
+ * Whether a segment of this type shows its local value (contextualization is on
+ * and its category isn't masked out)
+ */
+function showsLocalValue(input: TranslationInput, segmentType: string | null): boolean {
+  return input.contextualizationEnabled && isContextualized(input.contextualization, segmentType);
+}
+
+/**
+ * Whether a marker renders its own segment (dates and times)
+ */
+function hasOwnRendering(marker: Marker | undefined): boolean {
+  return !!marker && !!getMarkerDefinition(marker)?.segment?.render;
+}
+
+/**
+ * Marker an alias (or chain of aliases) points to
+ */
+function getAliasTarget(marker: Marker, markers: Record<string, Marker>): Marker {
+  const seen = new Set<Marker>();
+  while (isAliasMarker(marker) && markers[marker.sameAs] && !seen.has(marker)) {
+    seen.add(marker);
+    marker = markers[marker.sameAs];
+  }
+  return marker;
+}
+
+/**
+ * Get a marker's translation, reusing the dependency-ordered result when available
+ */
+function resolveMarker(key: string, marker: Marker, context: Context): TranslationResult {
+  return (
+    context.translationContext.resolved.get(key) ??
+    translateMarkerV2(key, marker, context.data, context.translationContext)
+  );
+}
+
+/**
+ * Thrown by translateStory for a slug no story.yaml has
+ */
+export class StoryNotFoundError extends Error {
+  constructor(readonly storySlug: string) {
+    super(`Story not found: ${storySlug}`);
   }
-  const parsed = yamlLoad(storyYaml) as Story;
-  PARSED_STORIES[storySlug] = parsed;
-  return parsed;
+}
+
+/**
+ * Load original story from story.yaml
+ */
+function loadOriginalStory(storySlug: string): Story {
+  const story = STORY_DATA[storySlug];
+  if (!story) {
+    throw new StoryNotFoundError(storySlug);
+  }
+  return story;
 }
 
 /**
  * Try to load pre-translated story, return null if doesn't exist
+ * Reads inline ([[MARKER:...]]) and segmented (format: 3) files alike
  */
 function loadPreTranslatedStory(
   storySlug: string,
   language: string,
   country: string
-): Story | null {
+): PreTranslatedFields | null {
   // Construct key: story-slug:lang-country (e.g., "mahsa-arrest:fr-be")
   const key = `${storySlug}:${language}-${country.toLowerCase()}`;
 
@@ -740,17 +1004,69 @@ function loadPreTranslatedStory(
   }
 
   // Check if pre-translated version exists
-  const yamlContent = PRETRANSLATED_STORIES[key];
-  if (!yamlContent) {
+  const preTranslated = PRETRANSLATED_STORIES[key];
+  if (!preTranslated) {
     return null;
   }
 
-  // Parse and cache
-  const parsed = yamlLoad(yamlContent) as Story;
+  // Read and cache
+  const parsed = readPreTranslatedFields(preTranslated);
   PARSED_PRETRANSLATED[key] = parsed;
   return parsed;
 }
 
+/**
+ * Find the pre-translated story to use: the reader's country's, or else the first
+ * country in the language's fallback chain with one (re-contextualized)
+ */
+function findPreTranslatedStory(
+  input: TranslationInput
+): { fields: PreTranslatedFields; locale: string; country: string } | null {
+  const fallbacks =
+    input.preTranslatedFallback === 'runtime'
+      ? []
+      : (PARSED_PRETRANSLATED_FALLBACKS[input.language] ?? []);
+
+  for (const country of [input.country, ...fallbacks.filter((code) => code !== input.country)]) {
+    const fields = loadPreTranslatedStory(input.storySlug, input.language, country);
+    if (fields) {
+      return { fields, locale: `${input.language}-${country.toLowerCase()}`, country };
+    }
+  }
+  return null;
+}
+
+/**
+ * Markers of a story field's {{key:comparable}} references, in order
+ * (another country's file has one comparison per reference)
+ */
+function getComparableKeys(text: string, markers: Record<string, Marker>): string[] {
+  return parseText(text)
+    .filter((token) => token.suffix === 'comparable' && token.markerKey)
+    .map((token) => token.markerKey!)
+    .filter((key) => markers[key] && 'casualties' in markers[key]);
+}
+
+/**
+ * Hashes of what a pre-translated file for this story and country should be built from
+ */
+function getCurrentBuiltFrom(storySlug: string, country: string, story: Story): BuiltFrom {
+  const key = `${storySlug}:${country}`;
+  CURRENT_BUILT_FROM[key] ??= computeBuiltFrom(
+    story as unknown as Record<string, unknown>,
+    country,
+    {
+      countries: PARSED_COUNTRIES,
+      names: PARSED_NAMES,
+      places: PARSED_PLACES,
+      comparableEvents: PARSED_COMPARABLE_EVENTS,
+      comparisonPhrases: PARSED_COMPARISON_PHRASES,
+      sourceContexts: PARSED_SOURCE_CONTEXTS,
+    }
+  );
+  return CURRENT_BUILT_FROM[key];
+}
+
 /**
  * Load context data for country and prepare translation context
  * Uses pre-parsed YAML data for performance
@@ -759,33 +1075,48 @@ function loadContextForCountry(
   countryCode: string,
   languageCode: string,
   storyId: string,
-  storyMarkers: Record<string, any> = {}
+  storyMarkers: Record<string, any> = {},
+  sourceCountry?: string,
+  storyDate?: string,
+  readerSeed?: string
 ): Context {
   // Use pre-parsed data (parsed once at module load)
   const targetCountry = PARSED_COUNTRIES.find((c: any) => c.code === countryCode);
   const countryNames = PARSED_NAMES[countryCode] || PARSED_NAMES['US'];
   const countryPlaces = PARSED_PLACES[countryCode] || PARSED_PLACES['US'];
   const countryEvents = PARSED_COMPARABLE_EVENTS[countryCode] || [];
+  const source = getSourceContext(PARSED_SOURCE_CONTEXTS, sourceCountry);
 
   const translationData: TranslationDataV2 = {
     country: countryCode,
     names: countryNames,
     places: countryPlaces,
-    population: targetCountry?.population || 85000000,
+    population: targetCountry?.population || source.population,
+    source,
     currencySymbol: targetCountry?.['currency-symbol'] || '$',
-    rialToLocal: targetCountry?.['rial-to-local'] || 0.000024,
+    currency: targetCountry?.currency,
+    exchangeRate: getExchangeRate(targetCountry?.['units-per-usd'] || 1, source),
     comparableEvents: countryEvents,
+    comparisonPhrases: PARSED_COMPARISON_PHRASES[languageCode] || PARSED_COMPARISON_PHRASES['en'],
     languageCode: languageCode,
+    storyDate,
   };
 
   const translationContext: TranslationContext = {
     markers: storyMarkers,
     resolved: new Map(),
     storyId: storyId,
+    assigned: new Map(),
+    readerSeed,
   };
 
+  // Resolve all markers up front so references never depend on text order
+  const resolutionErrors = resolveMarkersInOrder(translationData, translationContext);
+
   return {
     data: translationData,
     translationContext,
+    resolutionErrors,
+    diagnostics: getResolutionDiagnostics(resolutionErrors, translationContext.resolved),
   };
 }
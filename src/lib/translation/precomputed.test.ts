@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchPrecomputedStory, getPrecomputedPath, loadTranslatedStory } from './precomputed';
+import * as pipeline from './pipeline';
+import { translateStory } from './pipeline';
+
+// Production: precomputed translations are fetched
+vi.mock('$app/environment', () => ({ dev: false, browser: false }));
+
+const INPUT = {
+  storySlug: 'mahsa-arrest',
+  country: 'BE',
+  language: 'fr',
+  contextualizationEnabled: true,
+};
+
+describe('precomputed translations', () => {
+  it('should name files by story, country, language and contextualization', () => {
+    expect(getPrecomputedPath(INPUT)).toBe('/translations/mahsa-arrest/be-fr.json');
+    expect(getPrecomputedPath({ ...INPUT, contextualizationEnabled: false })).toBe(
+      '/translations/mahsa-arrest/be-fr-original.json'
+    );
+  });
+
+  it('should fetch the translation as the pipeline produced it', async () => {
+    const output = translateStory(INPUT);
+    const fetchFn = vi.fn(async () => new Response(JSON.stringify(output)));
+
+    expect(await fetchPrecomputedStory(INPUT, fetchFn)).toEqual(JSON.parse(JSON.stringify(output)));
+    expect(fetchFn).toHaveBeenCalledWith('/translations/mahsa-arrest/be-fr.json');
+  });
+
+  it('should return null for translations that were not precomputed', async () => {
+    const fetchFn = vi.fn(async () => new Response('Not found', { status: 404 }));
+
+    expect(await fetchPrecomputedStory(INPUT, fetchFn)).toBeNull();
+  });
+
+  it('should fail on other errors', async () => {
+    const fetchFn = vi.fn(async () => new Response('Error', { status: 500 }));
+
+    await expect(fetchPrecomputedStory(INPUT, fetchFn)).rejects.toThrow(
+      'Failed to load translation /translations/mahsa-arrest/be-fr.json: 500'
+    );
+  });
+
+  it("should translate a reader's reroll instead of fetching it", async () => {
+    const fetchFn = vi.fn(async () => new Response('Not found', { status: 404 }));
+    const input = { ...INPUT, seed: 'k3x9q2' };
+
+    expect(await loadTranslatedStory(input, fetchFn)).toEqual(translateStory(input));
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should fetch precomputed translations', async () => {
+    const output = translateStory(INPUT);
+    const fetchFn = vi.fn(async () => new Response(JSON.stringify(output)));
+
+    expect(await loadTranslatedStory(INPUT, fetchFn)).toEqual(JSON.parse(JSON.stringify(output)));
+    expect(fetchFn).toHaveBeenCalledOnce();
+  });
+
+  it('should translate combinations that were not precomputed', async () => {
+    const fetchFn = vi.fn(async () => new Response('Not found', { status: 404 }));
+    const input = { ...INPUT, country: 'US' };
+
+    expect(await loadTranslatedStory(input, fetchFn)).toEqual(translateStory(input));
+    expect(await loadTranslatedStory({ ...input, storySlug: 'unknown' }, fetchFn)).toBeNull();
+  });
+
+  it('should throw pipeline errors other than unknown stories', async () => {
+    const fetchFn = vi.fn(async () => new Response('Not found', { status: 404 }));
+    const failure = vi.spyOn(pipeline, 'translateStory').mockImplementation(() => {
+      throw new RangeError('Maximum call stack size exceeded');
+    });
+
+    await expect(loadTranslatedStory({ ...INPUT, country: 'US' }, fetchFn)).rejects.toThrow(
+      'Maximum call stack size exceeded'
+    );
+    failure.mockRestore();
+  });
+});
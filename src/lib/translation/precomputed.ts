@@ -0,0 +1,72 @@
+/**
+ * Precomputed story translations
+ *
+ * `npm run precompute` (part of `npm run build`) runs translateStory for every
+ * story × country × language × contextualization and writes each output as JSON
+ * to static/translations/. Pages fetch the one they need instead of bundling
+ * every story and context YAML file with the pipeline.
+ *
+ * In development the pipeline runs in the browser instead (loaded on demand),
+ * so edits to stories and context data show up without precomputing. A reader's
+ * reroll (a seed) can't be precomputed either, and only each country's own
+ * languages (and English) are - other combinations load the pipeline too.
+ */
+
+import { dev } from '$app/environment';
+import { base } from '$app/paths';
+import type { TranslationInput, TranslatedStoryOutput } from './pipeline';
+
+export type PrecomputedInput = Pick<
+  TranslationInput,
+  'storySlug' | 'country' | 'language' | 'contextualizationEnabled' | 'seed'
+>;
+
+/**
+ * Path of a precomputed translation, relative to the site root
+ * e.g. /translations/mahsa-arrest/be-fr.json (-original.json without contextualization)
+ */
+export function getPrecomputedPath(input: PrecomputedInput): string {
+  const variant = input.contextualizationEnabled ? '' : '-original';
+  return `/translations/${input.storySlug}/${input.country.toLowerCase()}-${input.language}${variant}.json`;
+}
+
+/**
+ * Fetch a precomputed translation
+ * @returns null if none was precomputed (unknown story, country or language)
+ */
+export async function fetchPrecomputedStory(
+  input: PrecomputedInput,
+  fetchFn: typeof fetch = fetch
+): Promise<TranslatedStoryOutput | null> {
+  const response = await fetchFn(`${base}${getPrecomputedPath(input)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load translation ${getPrecomputedPath(input)}: ${response.status}`);
+  }
+  return (await response.json()) as TranslatedStoryOutput;
+}
+
+/**
+ * Load a translated story: precomputed in production, translated at runtime in
+ * development, for a seed or for a combination that wasn't precomputed (e.g., a
+ * language the country doesn't speak)
+ * @param fetchFn - SvelteKit's fetch in load functions
+ * @returns null if the story doesn't exist (other pipeline errors are thrown)
+ */
+export async function loadTranslatedStory(
+  input: PrecomputedInput,
+  fetchFn: typeof fetch = fetch
+): Promise<TranslatedStoryOutput | null> {
+  if (!dev && !input.seed) {
+    const precomputed = await fetchPrecomputedStory(input, fetchFn);
+    if (precomputed) return precomputed;
+  }
+
+  const { translateStory, StoryNotFoundError } = await import('./pipeline');
+  try {
+    return translateStory(input);
+  } catch (error) {
+    if (error instanceof StoryNotFoundError) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { parsePreTranslated, formatMarker, formatComparison } from './pretranslated-parser';
+
+describe('parsePreTranslated', () => {
+  it('should parse markers, comparisons and placeholders into paragraphs', () => {
+    const { paragraphs, errors } = parsePreTranslated(
+      'v [[MARKER:place:city:Teheránu|Praze]] {{source:bbc}}\n' +
+        '[[COMPARISON:(twice)|(dvakrát)|{"kind":"comparable-event"}]]'
+    );
+
+    expect(errors).toEqual([]);
+    expect(paragraphs).toEqual([
+      [
+        { type: 'text', text: 'v ' },
+        {
+          type: 'marker',
+          markerType: 'place',
+          key: 'city',
+          original: 'Teheránu',
+          value: 'Praze',
+          explanation: undefined,
+          position: { line: 1, column: 3 },
+        },
+        { type: 'text', text: ' ' },
+        { type: 'placeholder', key: 'source', suffix: 'bbc', position: { line: 1, column: 40 } },
+      ],
+      [
+        {
+          type: 'comparison',
+          original: '(twice)',
+          translated: '(dvakrát)',
+          explanation: '{"kind":"comparable-event"}',
+          position: { line: 2, column: 1 },
+        },
+      ],
+    ]);
+  });
+
+  it('should allow colons and single brackets in values', () => {
+    const [[node]] = parsePreTranslated(
+      '[[MARKER:time:curfew:21:30|9:30 PM [local] time]]'
+    ).paragraphs;
+
+    expect(node).toMatchObject({ original: '21:30', value: '9:30 PM [local] time' });
+  });
+
+  it('should unescape delimiters', () => {
+    const [[node]] = parsePreTranslated(
+      '[[MARKER:place:a\\:b:x\\|y|z\\]\\]|why \\| not]]'
+    ).paragraphs;
+
+    expect(node).toMatchObject({
+      key: 'a:b',
+      original: 'x|y',
+      value: 'z]]',
+      explanation: 'why | not',
+    });
+  });
+
+  it('should read the legacy escaped placeholder form', () => {
+    const [[node]] = parsePreTranslated('{{{{source:bbc}}:source}}').paragraphs;
+
+    expect(node).toMatchObject({ type: 'placeholder', key: 'source', suffix: 'bbc' });
+  });
+
+  it('should report malformed markers with line and column and keep them as text', () => {
+    const { paragraphs, errors } = parsePreTranslated('Intro\nin [[MARKER:place:city:Tehran|Praha');
+
+    expect(errors).toEqual([
+      {
+        message: "Unterminated marker value: expected '|' or ']]'",
+        line: 2,
+        column: 36,
+      },
+    ]);
+    expect(paragraphs[1].map((node) => (node.type === 'text' ? node.text : node.type))).toEqual([
+      'in [[MARKER:place:city:Tehran|Praha',
+    ]);
+  });
+
+  it('should drop empty paragraphs', () => {
+    expect(parsePreTranslated('One\n\n  \nTwo').paragraphs).toHaveLength(2);
+  });
+});
+
+describe('formatMarker', () => {
+  it('should round-trip values containing delimiters', () => {
+    const marker = {
+      markerType: 'place',
+      key: 'square',
+      original: 'Azadi | Freedom',
+      value: 'Square [main]]',
+      explanation: '{"kind":"relocation","names":{"place":"a|b"}}',
+    };
+    const comparison = { original: '(a)', translated: '(b | c)', explanation: '{}' };
+
+    const [[markerNode, comparisonNode]] = parsePreTranslated(
+      formatMarker(marker) + formatComparison(comparison)
+    ).paragraphs;
+
+    expect(markerNode).toMatchObject({ type: 'marker', ...marker });
+    expect(comparisonNode).toMatchObject({ type: 'comparison', ...comparison });
+  });
+
+  it('should keep explanation JSON readable', () => {
+    expect(
+      formatMarker({
+        markerType: 'number',
+        key: 'n',
+        original: '1',
+        value: '2',
+        explanation: '{"a":1}',
+      })
+    ).toBe('[[MARKER:number:n:1|2|{"a":1}]]');
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Parser for the pre-translated story format
+ *
+ * Pre-translated stories (story.{lang}-{country}.yaml) embed resolved markers
+ * in their text:
+ * - [[MARKER:type:key:original|value]] or [[MARKER:type:key:original|value|explanation]]
+ * - [[COMPARISON:original|translated|explanation]]
+ * - {{key}} or {{key:suffix}} - placeholders translated at runtime
+ * - {{{{key:suffix}}:type}} - legacy escaped placeholder, read as {{type:suffix}}
+ *
+ * Fields end at the next unescaped delimiter: `:` for type and key, `|` for
+ * original and value, `]]` for value and explanation. Colons and single `]`
+ * inside original, value and explanation need no escaping ("21:30"). A
+ * backslash escapes the next `\`, `|`, `[`, `]`, `:`, `{` or `}` anywhere.
+ *
+ * Text splits into paragraphs at newlines, like story.yaml content. Malformed
+ * markers are kept as text and reported with their line and column.
+ */
+
+import { parseExplanation, serializeExplanation } from './explanations.ts';
+import type { Explanation } from './explanations.ts';
+
+export interface SourcePosition {
+  line: number; // 1-based, within the parsed text
+  column: number; // 1-based
+}
+
+export interface PreTranslatedParseError extends SourcePosition {
+  message: string;
+}
+
+export type PreTranslatedNode =
+  | { type: 'text'; text: string }
+  | {
+      type: 'marker';
+      markerType: string;
+      key: string;
+      original: string;
+      value: string;
+      explanation?: Explanation | string; // A sentence in files translated before explanations were structured
+      position?: SourcePosition;
+    }
+  | {
+      type: 'comparison';
+      original: string;
+      translated: string;
+      explanation: Explanation | string;
+      position?: SourcePosition;
+    }
+  | { type: 'placeholder'; key: string; suffix?: string; position?: SourcePosition };
+
+export interface PreTranslatedDocument {
+  paragraphs: PreTranslatedNode[][]; // Without empty paragraphs
+  errors: PreTranslatedParseError[];
+}
+
+const ESCAPABLE = new Set(['\\', '|', '[', ']', ':', '{', '}']);
+
+/**
+ * Thrown inside the parser when a construct is malformed; reported as a
+ * PreTranslatedParseError and the construct is kept as text
+ */
+class SyntaxFailure extends Error {
+  constructor(
+    message: string,
+    readonly index: number
+  ) {
+    super(message);
+  }
+}
+
+class Scanner {
+  index = 0;
+
+  constructor(readonly text: string) {}
+
+  get done(): boolean {
+    return this.index >= this.text.length;
+  }
+
+  startsWith(token: string): boolean {
+    return this.text.startsWith(token, this.index);
+  }
+
+  isEscape(): boolean {
+    return this.text[this.index] === '\\' && ESCAPABLE.has(this.text[this.index + 1]);
+  }
+
+  fail(message: string, index = this.index): never {
+    throw new SyntaxFailure(message, index);
+  }
+
+  expect(token: string, context: string) {
+    if (!this.startsWith(token)) this.fail(`Expected '${token}' ${context}`);
+    this.index += token.length;
+  }
+
+  /**
+   * Read a field up to (not including) the first unescaped terminator
+   * Returns the unescaped field and the terminator found.
+   */
+  readField(terminators: string[], name: string): { field: string; terminator: string } {
+    let field = '';
+    while (!this.done) {
+      if (this.isEscape()) {
+        field += this.text[this.index + 1];
+        this.index += 2;
+        continue;
+      }
+      const terminator = terminators.find((t) => this.startsWith(t));
+      if (terminator) return { field, terminator };
+      if (this.text[this.index] === '\n') break;
+      field += this.text[this.index];
+      this.index++;
+    }
+    const expected = terminators.map((t) => `'${t}'`).join(' or ');
+    return this.fail(`Unterminated ${name}: expected ${expected}`);
+  }
+}
+
+function parseMarker(scanner: Scanner, position: SourcePosition): PreTranslatedNode {
+  scanner.expect('[[MARKER:', 'to open a marker');
+  const markerType = scanner.readField([':'], 'marker type').field;
+  scanner.expect(':', 'after the marker type');
+  const key = scanner.readField([':'], 'marker key').field;
+  scanner.expect(':', 'after the marker key');
+  if (!markerType || !key) scanner.fail('Marker needs a type and a key');
+
+  const original = scanner.readField(['|'], 'marker original').field;
+  scanner.expect('|', 'after the marker original');
+  const { field: value, terminator } = scanner.readField(['|', ']]'], 'marker value');
+  let explanation: Explanation | string | undefined;
+  if (terminator === '|') {
+    scanner.index++;
+    explanation = parseExplanation(scanner.readField([']]'], 'marker explanation').field);
+  }
+  scanner.expect(']]', 'to close the marker');
+
+  return { type: 'marker', markerType, key, original, value, explanation, position };
+}
+
+function parseComparison(scanner: Scanner, position: SourcePosition): PreTranslatedNode {
+  scanner.expect('[[COMPARISON:', 'to open a comparison');
+  const original = scanner.readField(['|'], 'comparison original').field;
+  scanner.expect('|', 'after the comparison original');
+  const translated = scanner.readField(['|'], 'comparison text').field;
+  scanner.expect('|', 'after the comparison text');
+  const explanation = parseExplanation(scanner.readField([']]'], 'comparison explanation').field);
+  scanner.expect(']]', 'to close the comparison');
+
+  return { type: 'comparison', original, translated, explanation, position };
+}
+
+function parsePlaceholder(scanner: Scanner, position: SourcePosition): PreTranslatedNode {
+  // Legacy escaped form: {{{{key:suffix}}:type}}
+  if (scanner.startsWith('{{{{')) {
+    scanner.index += 4;
+    scanner.readField([':'], 'placeholder key');
+    scanner.index++;
+    const suffix = scanner.readField(['}}'], 'placeholder suffix').field;
+    scanner.expect('}}:', 'after the escaped placeholder');
+    const key = scanner.readField(['}}'], 'placeholder type').field;
+    scanner.index += 2;
+    return { type: 'placeholder', key, suffix, position };
+  }
+
+  scanner.expect('{{', 'to open a placeholder');
+  const { field: key, terminator } = scanner.readField([':', '}}'], 'placeholder');
+  let suffix: string | undefined;
+  if (terminator === ':') {
+    scanner.index++;
+    suffix = scanner.readField(['}}'], 'placeholder suffix').field;
+  }
+  scanner.index += 2;
+  if (!key) scanner.fail('Placeholder needs a key', scanner.index - 2);
+
+  return { type: 'placeholder', key, suffix: suffix || undefined, position };
+}
+
+/**
+ * Parse pre-translated text into paragraphs of nodes
+ */
+export function parsePreTranslated(text: string): PreTranslatedDocument {
+  const scanner = new Scanner(text);
+  const positionAt = (index: number): SourcePosition => {
+    const before = text.slice(0, index);
+    return { line: before.split('\n').length, column: index - before.lastIndexOf('\n') };
+  };
+  const errors: PreTranslatedParseError[] = [];
+  const paragraphs: PreTranslatedNode[][] = [];
+  let nodes: PreTranslatedNode[] = [];
+  let buffer = '';
+
+  const flushText = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const endParagraph = () => {
+    flushText();
+    // Whitespace-only paragraphs are dropped, like story.yaml content
+    if (nodes.some((node) => node.type !== 'text' || node.text.trim())) {
+      paragraphs.push(nodes);
+    }
+    nodes = [];
+  };
+
+  while (!scanner.done) {
+    const start = scanner.index;
+    const parse = scanner.startsWith('[[MARKER:')
+      ? parseMarker
+      : scanner.startsWith('[[COMPARISON:')
+        ? parseComparison
+        : scanner.startsWith('{{')
+          ? parsePlaceholder
+          : null;
+
+    if (parse) {
+      try {
+        const node = parse(scanner, positionAt(start));
+        flushText();
+        nodes.push(node);
+      } catch (failure) {
+        if (!(failure instanceof SyntaxFailure)) throw failure;
+        errors.push({ message: failure.message, ...positionAt(failure.index) });
+        // Keep the opening delimiter as text and carry on after it
+        scanner.index = start + 2;
+        buffer += text.slice(start, scanner.index);
+      }
+      continue;
+    }
+
+    if (scanner.isEscape()) {
+      buffer += text[scanner.index + 1];
+      scanner.index += 2;
+    } else if (text[scanner.index] === '\n') {
+      endParagraph();
+      scanner.index++;
+    } else {
+      buffer += text[scanner.index];
+      scanner.index++;
+    }
+  }
+  endParagraph();
+
+  return { paragraphs, errors };
+}
+
+/**
+ * Escape a field so it reads back unchanged
+ * Only backslashes and delimiters that could end the field are escaped, so
+ * explanations stay readable JSON.
+ */
+export function escapeField(field: string, delimiters = '|]'): string {
+  return [...field]
+    .map((char) => (('\\' + delimiters).includes(char) ? `\\${char}` : char))
+    .join('');
+}
+
+const formatExplanationField = (explanation: Explanation | string) =>
+  escapeField(typeof explanation === 'string' ? explanation : serializeExplanation(explanation));
+
+/**
+ * Format a marker for a pre-translated story
+ */
+export function formatMarker(marker: {
+  markerType: string;
+  key: string;
+  original: string;
+  value: string;
+  explanation?: Explanation | string;
+}): string {
+  const explanation =
+    marker.explanation !== undefined ? `|${formatExplanationField(marker.explanation)}` : '';
+  const header = [marker.markerType, marker.key].map((field) => escapeField(field, ':|]'));
+  return `[[MARKER:${header.join(':')}:${escapeField(marker.original)}|${escapeField(marker.value)}${explanation}]]`;
+}
+
+/**
+ * Format a comparison for a pre-translated story
+ */
+export function formatComparison(comparison: {
+  original: string;
+  translated: string;
+  explanation: Explanation | string;
+}): string {
+  return `[[COMPARISON:${escapeField(comparison.original)}|${escapeField(comparison.translated)}|${formatExplanationField(comparison.explanation)}]]`;
+}
+
+/**
+ * Format paragraphs of nodes back to pre-translated text
+ */
+export function formatPreTranslated(paragraphs: PreTranslatedNode[][]): string {
+  const formatNode = (node: PreTranslatedNode): string => {
+    switch (node.type) {
+      case 'text':
+        // Escape what would otherwise read as an escape or a marker
+        return node.text
+          .replace(/\\(?=[\\|[\]:{}])/g, '\\\\')
+          .replace(/\[\[/g, '\\[[')
+          .replace(/\{\{/g, '\\{{');
+      case 'marker':
+        return formatMarker(node);
+      case 'comparison':
+        return formatComparison(node);
+      case 'placeholder':
+        return `{{${node.key}${node.suffix ? ':' + node.suffix : ''}}}`;
+    }
+  };
+  return paragraphs.map((nodes) => nodes.map(formatNode).join('')).join('\n');
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  readPreTranslatedFields,
+  toInlineStory,
+  toSegmentedStory,
+  SEGMENTED_FORMAT,
+} from './pretranslated-story';
+
+const INLINE = {
+  id: 'story',
+  title: '[[MARKER:person:person1:Zahras|Lenas]] Festnahme',
+  summary: 'Eine Geschichte',
+  content:
+    'Um [[MARKER:time:raid-time:21:30|21:30]] Uhr{{source:bbc}}\n' +
+    '[[MARKER:number:arrested:47|46|{"kind":"population-scaling","operands":{"value":47}}]] ' +
+    '[[COMPARISON:(twice)|(doppelt)|Vergleich: 2×]]',
+  tags: ['protest'],
+};
+
+describe('pre-translated story formats', () => {
+  it('should convert inline files to segments', () => {
+    const { story, errors } = toSegmentedStory(INLINE);
+
+    expect(errors).toEqual([]);
+    expect(story.format).toBe(SEGMENTED_FORMAT);
+    expect(story.tags).toEqual(['protest']);
+    expect(story.title).toEqual([
+      [{ marker: 'person1', type: 'person', original: 'Zahras', local: 'Lenas' }, ' Festnahme'],
+    ]);
+    expect(story.content).toEqual([
+      [
+        'Um ',
+        { marker: 'raid-time', type: 'time', original: '21:30', local: '21:30' },
+        ' Uhr',
+        { placeholder: 'source', suffix: 'bbc' },
+      ],
+      [
+        {
+          marker: 'arrested',
+          type: 'number',
+          original: '47',
+          local: '46',
+          explanation: { kind: 'population-scaling', operands: { value: 47 } },
+        },
+        ' ',
+        { comparison: '(twice)', local: '(doppelt)', explanation: 'Vergleich: 2×' },
+      ],
+    ]);
+  });
+
+  it('should read both formats into the same nodes', () => {
+    const inline = readPreTranslatedFields(INLINE);
+    const segmented = readPreTranslatedFields(toSegmentedStory(INLINE).story);
+
+    expect(segmented.errors).toEqual([]);
+    expect(segmented.content).toEqual(
+      inline.content.map((nodes) =>
+        nodes.map((node) => (node.type === 'text' ? node : { ...node, position: undefined }))
+      )
+    );
+  });
+
+  it('should convert segments back to inline text', () => {
+    expect(toInlineStory(toSegmentedStory(INLINE).story)).toEqual(INLINE);
+  });
+
+  it('should not convert files with marker syntax errors', () => {
+    const broken = { ...INLINE, title: '[[MARKER:person:person1:Zahras' };
+
+    expect(toSegmentedStory(broken)).toEqual({
+      story: broken,
+      errors: ["title 1:31: Unterminated marker original: expected '|'"],
+    });
+  });
+
+  it('should report unknown segments', () => {
+    const { errors } = readPreTranslatedFields({
+      format: SEGMENTED_FORMAT,
+      title: [['Title', { unknown: true }]],
+      summary: [],
+      content: 'not a list',
+    });
+
+    expect(errors).toEqual([
+      'title paragraph 1, segment 2: unknown segment',
+      'content: expected a list of paragraphs',
+    ]);
+  });
+});
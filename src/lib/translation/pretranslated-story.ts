@@ -0,0 +1,196 @@
+/**
+ * Pre-translated story files (story.{lang}-{country}.yaml)
+ *
+ * Two formats are read:
+ * - Inline: title, summary and content are text with [[MARKER:...]] and
+ *   [[COMPARISON:...]] embedded (see pretranslated-parser.ts)
+ * - Segmented (`format: 3`): each field is a list of paragraphs, each a list of
+ *   segments - plain text, or a marker with its translated original and local
+ *   value. Easier to review and safe for any character in values.
+ *
+ * ```yaml
+ * format: 3
+ * title:
+ *   - - marker: person1
+ *       type: person
+ *       original: Zahras
+ *       local: Lenas
+ *     - ' Festnahme'
+ * ```
+ *
+ * Both read into the same paragraphs of nodes, so the pipeline renders them
+ * alike. `npm run migrate:pretranslated` converts inline files.
+ */
+
+import { formatPreTranslated, parsePreTranslated } from './pretranslated-parser.ts';
+import type { PreTranslatedNode } from './pretranslated-parser.ts';
+import type { Explanation } from './explanations.ts';
+import type { BuiltFrom } from './staleness.ts';
+
+export const SEGMENTED_FORMAT = 3;
+
+export const TRANSLATED_FIELDS = ['title', 'summary', 'content'] as const;
+export type TranslatedField = (typeof TRANSLATED_FIELDS)[number];
+
+export type PreTranslatedSegment =
+  | string // Plain text
+  | {
+      marker: string; // Marker key
+      type: string; // Marker type
+      original: string; // Source value, translated and inflected
+      local: string; // Local value, translated and inflected
+      explanation?: Explanation | string;
+    }
+  | {
+      comparison: string; // Comparison text before translation
+      local: string; // Translated comparison text
+      explanation: Explanation | string;
+    }
+  | {
+      placeholder: string; // Marker key translated at runtime (or source/image)
+      suffix?: string;
+    };
+
+export type PreTranslatedFields = Record<TranslatedField, PreTranslatedNode[][]> & {
+  errors: string[]; // Syntax errors, prefixed with the field and position
+  builtFrom?: BuiltFrom; // Hashes recorded by the translate script (`built-from`)
+};
+
+/**
+ * Convert segments to nodes
+ */
+function segmentsToNodes(
+  field: TranslatedField,
+  paragraphs: unknown,
+  errors: string[]
+): PreTranslatedNode[][] {
+  if (!Array.isArray(paragraphs)) {
+    errors.push(`${field}: expected a list of paragraphs`);
+    return [];
+  }
+
+  return paragraphs.map((segments, p) => {
+    if (!Array.isArray(segments)) {
+      errors.push(`${field} paragraph ${p + 1}: expected a list of segments`);
+      return [];
+    }
+    return segments.flatMap((segment: PreTranslatedSegment, s): PreTranslatedNode[] => {
+      if (typeof segment === 'string') return [{ type: 'text', text: segment }];
+      if (segment && 'marker' in segment) {
+        const { marker: key, type: markerType, original, local: value, explanation } = segment;
+        return [{ type: 'marker', markerType, key, original, value, explanation }];
+      }
+      if (segment && 'comparison' in segment) {
+        const { comparison: original, local: translated, explanation } = segment;
+        return [{ type: 'comparison', original, translated, explanation }];
+      }
+      if (segment && 'placeholder' in segment) {
+        return [{ type: 'placeholder', key: segment.placeholder, suffix: segment.suffix }];
+      }
+      errors.push(`${field} paragraph ${p + 1}, segment ${s + 1}: unknown segment`);
+      return [];
+    });
+  });
+}
+
+/**
+ * Convert nodes to segments
+ */
+export function nodesToSegments(paragraphs: PreTranslatedNode[][]): PreTranslatedSegment[][] {
+  return paragraphs.map((nodes) =>
+    nodes.map((node): PreTranslatedSegment => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'marker':
+          return {
+            marker: node.key,
+            type: node.markerType,
+            original: node.original,
+            local: node.value,
+            ...(node.explanation !== undefined && { explanation: node.explanation }),
+          };
+        case 'comparison':
+          return {
+            comparison: node.original,
+            local: node.translated,
+            explanation: node.explanation,
+          };
+        case 'placeholder':
+          return { placeholder: node.key, ...(node.suffix && { suffix: node.suffix }) };
+      }
+    })
+  );
+}
+
+/**
+ * Check whether a parsed pre-translated file uses the segmented format
+ */
+export function isSegmented(story: Record<string, unknown>): boolean {
+  return story.format === SEGMENTED_FORMAT;
+}
+
+/**
+ * Read the translated fields of a parsed pre-translated file, in either format
+ */
+export function readPreTranslatedFields(story: Record<string, unknown>): PreTranslatedFields {
+  const errors: string[] = [];
+  const read = (field: TranslatedField): PreTranslatedNode[][] => {
+    if (isSegmented(story)) return segmentsToNodes(field, story[field], errors);
+
+    const document = parsePreTranslated(String(story[field] ?? ''));
+    for (const error of document.errors) {
+      errors.push(`${field} ${error.line}:${error.column}: ${error.message}`);
+    }
+    return document.paragraphs;
+  };
+
+  return {
+    title: read('title'),
+    summary: read('summary'),
+    content: read('content'),
+    errors,
+    builtFrom: story['built-from'] as BuiltFrom | undefined,
+  };
+}
+
+/**
+ * Convert a parsed inline pre-translated file to the segmented format
+ * Other fields are kept as they are. Files with syntax errors are not
+ * converted, since the broken markers would be kept as plain text.
+ */
+export function toSegmentedStory(story: Record<string, unknown>): {
+  story: Record<string, unknown>;
+  errors: string[];
+} {
+  if (isSegmented(story)) return { story, errors: [] };
+
+  const fields = readPreTranslatedFields(story);
+  if (fields.errors.length > 0) return { story, errors: fields.errors };
+
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(story)) {
+    // Keep the field order of the file, with the format first
+    if (key === 'format') continue;
+    converted[key] = (TRANSLATED_FIELDS as readonly string[]).includes(key)
+      ? nodesToSegments(fields[key as TranslatedField])
+      : value;
+  }
+  return { story: { format: SEGMENTED_FORMAT, ...converted }, errors: [] };
+}
+
+/**
+ * Convert a parsed pre-translated file to inline text fields
+ */
+export function toInlineStory(story: Record<string, unknown>): Record<string, unknown> {
+  if (!isSegmented(story)) return story;
+
+  const fields = readPreTranslatedFields(story);
+  const { format: _format, ...rest } = story;
+  return {
+    ...rest,
+    title: formatPreTranslated(fields.title),
+    summary: formatPreTranslated(fields.summary),
+    content: formatPreTranslated(fields.content),
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { formatPersonForm, parsePersonForm } from './pronouns';
+
+describe('person forms', () => {
+  it('should pick pronouns for the gender', () => {
+    expect(formatPersonForm('they', 'Sarah', 'f', 'en')).toBe('she');
+    expect(formatPersonForm('them', 'James', 'm', 'en')).toBe('him');
+    expect(formatPersonForm('their', 'Alex', 'x', 'en')).toBe('their');
+    expect(formatPersonForm('their', 'Lena', 'f', 'de')).toBe('ihr');
+    expect(formatPersonForm('them', 'Lars', 'm', 'sv')).toBe('honom');
+    expect(formatPersonForm('their', 'Kim', 'x', 'sv')).toBe('hens');
+  });
+
+  it('should add possessive endings for names ending in s', () => {
+    expect(formatPersonForm('possessive', 'Sarah', 'f', 'en')).toBe("Sarah's");
+    expect(formatPersonForm('possessive', 'Lukas', 'm', 'en')).toBe("Lukas'");
+    expect(formatPersonForm('possessive', 'Lena', 'f', 'de')).toBe('Lenas');
+    expect(formatPersonForm('possessive', 'Max', 'm', 'de')).toBe("Max'");
+    expect(formatPersonForm('possessive', 'Anna', 'f', 'nl')).toBe("Anna's");
+    expect(formatPersonForm('possessive', 'Jan', 'm', 'nl')).toBe('Jans');
+    expect(formatPersonForm('possessive', 'Lars', 'm', 'sv')).toBe('Lars');
+  });
+
+  it('should repeat the name when a language has no pronoun for the gender', () => {
+    expect(formatPersonForm('they', 'Alex', 'x', 'de')).toBe('Alex');
+    expect(formatPersonForm('their', 'Alex', 'x', 'de')).toBe("Alex'");
+    expect(formatPersonForm('their', 'Kim', 'x', 'de')).toBe('Kims');
+  });
+
+  it('should fall back to English for other languages', () => {
+    expect(formatPersonForm('they', 'Marie', 'f', 'fr')).toBe('she');
+  });
+
+  it('should read capitalized suffixes', () => {
+    expect(parsePersonForm('their')).toEqual({ form: 'their', capitalized: false });
+    expect(parsePersonForm('They')).toEqual({ form: 'they', capitalized: true });
+    expect(parsePersonForm('age')).toBeNull();
+    expect(parsePersonForm(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Pronoun and possessive forms of person markers
+ *
+ * Stories refer back to a person with {{person1:they}}, {{person1:them}},
+ * {{person1:their}} and {{person1:possessive}} (the name with a possessive
+ * ending: "Sara's"), so the pronoun follows the gender of the marker instead of
+ * being written into the text. A capitalized suffix ({{person1:They}}) starts a
+ * sentence.
+ *
+ * Languages without forms here fall back to English, like the phrase catalogs.
+ * Genders a language has no pronoun for repeat the name.
+ */
+
+import type { Gender } from '../types/index.ts';
+
+export const PERSON_FORMS = ['possessive', 'they', 'them', 'their'] as const;
+export type PersonForm = (typeof PERSON_FORMS)[number];
+
+type Pronoun = Exclude<PersonForm, 'possessive'>;
+type Pronouns = Record<Pronoun, string>;
+
+interface LanguageForms {
+  male: Pronouns;
+  female: Pronouns;
+  neutral?: Pronouns;
+  possessive(name: string): string;
+}
+
+/**
+ * Add a possessive ending, with another one for names ending in these letters
+ */
+function possessiveEnding(ending: string, afterSibilant: string, sibilants = /[sxz]$/i) {
+  return (name: string) => name + (sibilants.test(name) ? afterSibilant : ending);
+}
+
+const LANGUAGE_FORMS: Record<string, LanguageForms> = {
+  en: {
+    male: { they: 'he', them: 'him', their: 'his' },
+    female: { they: 'she', them: 'her', their: 'her' },
+    neutral: { they: 'they', them: 'them', their: 'their' },
+    // AP style: "Lukas' family"
+    possessive: possessiveEnding("'s", "'", /s$/i),
+  },
+  de: {
+    male: { they: 'er', them: 'ihn', their: 'sein' },
+    female: { they: 'sie', them: 'sie', their: 'ihr' },
+    possessive: possessiveEnding('s', "'", /(s|ß|x|z)$/i),
+  },
+  nl: {
+    male: { they: 'hij', them: 'hem', their: 'zijn' },
+    female: { they: 'zij', them: 'haar', their: 'haar' },
+    neutral: { they: 'die', them: 'hen', their: 'hun' },
+    // "Jans", "Anna's", "Lucas'"
+    possessive: (name) =>
+      /(s|x|z|sh|ch)$/i.test(name) ? `${name}'` : /[aiouy]$/i.test(name) ? `${name}'s` : `${name}s`,
+  },
+  sv: {
+    male: { they: 'han', them: 'honom', their: 'hans' },
+    female: { they: 'hon', them: 'henne', their: 'hennes' },
+    neutral: { they: 'hen', them: 'hen', their: 'hens' },
+    possessive: possessiveEnding('s', ''),
+  },
+  no: {
+    male: { they: 'han', them: 'ham', their: 'hans' },
+    female: { they: 'hun', them: 'henne', their: 'hennes' },
+    neutral: { they: 'hen', them: 'hen', their: 'hens' },
+    possessive: possessiveEnding('s', "'"),
+  },
+  da: {
+    male: { they: 'han', them: 'ham', their: 'hans' },
+    female: { they: 'hun', them: 'hende', their: 'hendes' },
+    neutral: { they: 'hen', them: 'hen', their: 'hens' },
+    possessive: possessiveEnding('s', "'"),
+  },
+};
+
+/**
+ * Languages with their own forms (others use English)
+ */
+export function getPersonFormLanguages(): string[] {
+  return Object.keys(LANGUAGE_FORMS);
+}
+
+/**
+ * Read a {{key:suffix}} suffix as a person form
+ * @returns null if the suffix is not one ('age', 'original', typos, ...)
+ */
+export function parsePersonForm(
+  suffix: string | undefined
+): { form: PersonForm; capitalized: boolean } | null {
+  const form = suffix?.toLowerCase() as PersonForm | undefined;
+  if (!form || !PERSON_FORMS.includes(form)) return null;
+  return { form, capitalized: suffix![0] !== form[0] };
+}
+
+/**
+ * A person form for a gender in a language
+ * @param name - The person's (translated or original) name
+ */
+export function formatPersonForm(
+  form: PersonForm,
+  name: string,
+  gender: Gender,
+  language: string
+): string {
+  const forms = LANGUAGE_FORMS[language] ?? LANGUAGE_FORMS.en;
+  if (form === 'possessive') return forms.possessive(name);
+
+  const pronouns = gender === 'm' ? forms.male : gender === 'f' ? forms.female : forms.neutral;
+  if (pronouns) return pronouns[form];
+  return form === 'their' ? forms.possessive(name) : name;
+}
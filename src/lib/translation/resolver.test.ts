@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { planMarkerResolution, getMarkerDependencies } from './resolver';
+import type { Marker } from '$lib/types';
+
+describe('marker resolver', () => {
+  describe('getMarkerDependencies', () => {
+    it('should collect every reference field', () => {
+      expect(getMarkerDependencies({ place: 'Azadi Square', within: 'city' })).toEqual([
+        { field: 'within', target: 'city' },
+      ]);
+      expect(getMarkerDependencies({ sameAs: 'tehran' })).toEqual([
+        { field: 'sameAs', target: 'tehran' },
+      ]);
+      expect(
+        getMarkerDependencies({ casualties: 10, scopeCity: 'city', comparedTo: 'wounded' })
+      ).toEqual([
+        { field: 'scopeCity', target: 'city' },
+        { field: 'comparedTo', target: 'wounded' },
+      ]);
+      expect(getMarkerDependencies({ person: 'Zahra', gender: 'f', from: 'city' })).toEqual([
+        { field: 'from', target: 'city' },
+      ]);
+    });
+
+    it('should return nothing for markers without references', () => {
+      expect(getMarkerDependencies({ number: 5 })).toEqual([]);
+    });
+  });
+
+  describe('planMarkerResolution', () => {
+    it('should order dependencies before the markers that use them', () => {
+      const markers: Record<string, Marker> = {
+        square: { place: 'Azadi Square', 'landmark-protest': true, within: 'city' },
+        killed: { casualties: 100, scope: 'city', scopeCity: 'city', comparedTo: 'wounded' },
+        wounded: { casualties: 40 },
+        city: { place: 'Tehran', 'city-large': true },
+      };
+
+      const { order, errors } = planMarkerResolution(markers);
+
+      expect(errors).toEqual([]);
+      expect(order).toHaveLength(4);
+      expect(order.indexOf('city')).toBeLessThan(order.indexOf('square'));
+      expect(order.indexOf('city')).toBeLessThan(order.indexOf('killed'));
+      expect(order.indexOf('wounded')).toBeLessThan(order.indexOf('killed'));
+    });
+
+    it('should be deterministic and keep definition order for independent markers', () => {
+      const markers: Record<string, Marker> = {
+        b: { number: 1 },
+        a: { number: 2 },
+        c: { number: 3 },
+      };
+
+      expect(planMarkerResolution(markers).order).toEqual(['b', 'a', 'c']);
+    });
+
+    it('should report dangling references without dropping the marker', () => {
+      const markers: Record<string, Marker> = {
+        home: { sameAs: 'missing' },
+      };
+
+      const { order, errors } = planMarkerResolution(markers);
+
+      expect(order).toEqual(['home']);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        kind: 'dangling-reference',
+        key: 'home',
+        field: 'sameAs',
+        target: 'missing',
+      });
+    });
+
+    it('should report cycles once and leave cyclic markers out of the order', () => {
+      const markers: Record<string, Marker> = {
+        person1: { person: 'Zahra', gender: 'f', from: 'a' },
+        a: { sameAs: 'b' },
+        b: { sameAs: 'a' },
+      };
+
+      const { order, cyclic, errors } = planMarkerResolution(markers);
+
+      expect(order).toEqual(['person1']);
+      expect(cyclic.sort()).toEqual(['a', 'b']);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].kind).toBe('cycle');
+      expect(errors[0].cycle).toEqual(['a', 'b', 'a']);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Marker dependency resolution
+ *
+ * Markers can reference each other (a landmark is `within` a city, an alias is
+ * `sameAs` another marker, casualties are scaled against a `scopeCity`, ...).
+ * This module builds the dependency graph between markers and computes a
+ * resolution order in which every marker comes after the markers it depends on,
+ * so translation results don't depend on where a marker sits in the story.
+ */
+
+import type { Marker } from '../types/index.ts';
+import { getMarkerDefinition } from './markers/index.ts';
+
+/**
+ * Marker property that references another marker by key (declared per marker type)
+ */
+export type DependencyField = string;
+
+/**
+ * A reference from one marker to another
+ */
+export interface MarkerDependency {
+  field: DependencyField;
+  target: string;
+}
+
+/**
+ * Structured error found while planning the resolution order
+ */
+export interface MarkerResolutionError {
+  kind: 'cycle' | 'dangling-reference';
+  key: string; // Marker holding the reference
+  field?: DependencyField; // For dangling references
+  target?: string; // For dangling references
+  cycle?: string[]; // For cycles: marker keys in reference order
+  message: string;
+}
+
+/**
+ * Result of planning marker resolution
+ */
+export interface ResolutionPlan {
+  order: string[]; // Marker keys, dependencies first (keys in cycles are excluded)
+  cyclic: string[]; // Marker keys that take part in a cycle
+  errors: MarkerResolutionError[];
+}
+
+/**
+ * Get the references a marker holds to other markers
+ */
+export function getMarkerDependencies(marker: Marker): MarkerDependency[] {
+  const dependencies: MarkerDependency[] = [];
+  for (const field of getMarkerDefinition(marker)?.dependencies ?? []) {
+    const target = (marker as unknown as Record<string, unknown>)[field];
+    if (typeof target === 'string' && target.length > 0) {
+      dependencies.push({ field, target });
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Compute a dependency-first resolution order for a story's markers
+ *
+ * Uses a depth-first topological sort in marker definition order, so the
+ * result is deterministic. Dangling references are reported but don't block
+ * resolution; markers in a cycle are reported and left out of the order.
+ */
+export function planMarkerResolution(markers: Record<string, Marker>): ResolutionPlan {
+  const order: string[] = [];
+  const errors: MarkerResolutionError[] = [];
+  const cyclic = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  function visit(key: string) {
+    const current = state.get(key);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      // Back edge: everything on the stack from `key` onwards forms a cycle
+      const cycle = stack.slice(stack.indexOf(key));
+      if (!cycle.some((k) => cyclic.has(k))) {
+        errors.push({
+          kind: 'cycle',
+          key,
+          cycle: [...cycle, key],
+          message: `Circular marker reference: ${[...cycle, key].join(' → ')}`,
+        });
+      }
+      cycle.forEach((k) => cyclic.add(k));
+      return;
+    }
+
+    state.set(key, 'visiting');
+    stack.push(key);
+
+    for (const { field, target } of getMarkerDependencies(markers[key])) {
+      if (!(target in markers)) {
+        errors.push({
+          kind: 'dangling-reference',
+          key,
+          field,
+          target,
+          message: `Marker '${key}' references non-existent marker in '${field}': ${target}`,
+        });
+        continue;
+      }
+      visit(target);
+    }
+
+    stack.pop();
+    state.set(key, 'done');
+    if (!cyclic.has(key)) {
+      order.push(key);
+    }
+  }
+
+  for (const key of Object.keys(markers)) {
+    visit(key);
+  }
+
+  return { order, cyclic: [...cyclic], errors };
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { stories } from '$lib/data/stories';
+import { countries } from '$lib/data/contexts';
+import { translateStory } from './pipeline';
+
+describe('seeded translation outputs', () => {
+  // Pins every seeded choice (names, places, variance) for every country.
+  // After an intended change to the PRNG or the context data: npx vitest -u
+  it.each(countries.map((country) => country.code))(
+    'should pick the pinned marker values for %s',
+    (country) => {
+      const values = Object.fromEntries(
+        stories.map((story) => {
+          const translated = translateStory({
+            storySlug: story.slug,
+            country,
+            language: 'en',
+            contextualizationEnabled: true,
+          });
+          const segments = [...translated.title, ...translated.summary, ...translated.content];
+          const markerValues: Record<string, string> = {};
+          for (const seg of segments) {
+            if (seg.key !== null && !(seg.key in markerValues)) markerValues[seg.key] = seg.text;
+          }
+          return [story.slug, markerValues];
+        })
+      );
+
+      expect(values).toMatchSnapshot();
+    }
+  );
+});
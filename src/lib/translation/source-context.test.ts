@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSourceContext,
+  getExchangeRate,
+  findSourceCity,
+  resolveSourceCity,
+  resolveSourceCoordinates,
+} from './source-context';
+import { sourceContexts } from '$lib/data/contexts';
+import type { Marker } from '$lib/types';
+
+const iran = getSourceContext(sourceContexts);
+
+describe('source contexts', () => {
+  it('should default to Iran', () => {
+    expect(iran.code).toBe('IR');
+    expect(() => getSourceContext(sourceContexts, 'XX')).toThrow('Unknown source country: XX');
+  });
+
+  it('should convert through the US dollar', () => {
+    expect(getExchangeRate(0.875, iran)).toBeCloseTo(0.000021, 8);
+    expect(getExchangeRate(0.875, { ...iran, 'units-per-usd': 3.5 })).toBe(0.25);
+  });
+
+  it('should find bundled cities with province', () => {
+    expect(findSourceCity(iran, 'Zanjan')).toEqual({
+      name: 'Zanjan',
+      population: 430871,
+      province: 'Zanjan',
+      coordinates: { lat: 36.68, lon: 48.48 },
+    });
+    expect(findSourceCity(iran, 'Atlantis')).toBeNull();
+  });
+
+  describe('resolveSourceCity', () => {
+    const markers: Record<string, Marker> = {
+      mashhad: { place: 'Mashhad', 'city-medium': true },
+      tehran: { place: 'Tehran', 'city-large': true, population: 9500000 },
+      square: { place: 'Azadi Square', 'landmark-protest': true, within: 'tehran' },
+      home: { sameAs: 'mashhad' },
+      village: { place: 'Small Village', 'city-small': true },
+      loop: { sameAs: 'loop' },
+    };
+
+    it('should take the population from the bundled dataset', () => {
+      expect(resolveSourceCity(markers, 'mashhad', iran)).toEqual({
+        name: 'Mashhad',
+        population: 3001184,
+        province: 'Razavi Khorasan',
+      });
+    });
+
+    it("should prefer the marker's own population", () => {
+      expect(resolveSourceCity(markers, 'tehran', iran)?.population).toBe(9500000);
+    });
+
+    it('should follow landmarks and aliases to their city', () => {
+      expect(resolveSourceCity(markers, 'square', iran)?.name).toBe('Tehran');
+      expect(resolveSourceCity(markers, 'home', iran)?.name).toBe('Mashhad');
+    });
+
+    it('should return null when no population is known', () => {
+      expect(resolveSourceCity(markers, 'village', iran)).toBeNull();
+      expect(resolveSourceCity(markers, 'loop', iran)).toBeNull();
+      expect(resolveSourceCity(markers, 'missing', iran)).toBeNull();
+    });
+  });
+
+  describe('resolveSourceCoordinates', () => {
+    const markers: Record<string, Marker> = {
+      tehran: { place: 'Tehran', 'city-large': true },
+      square: { place: 'Azadi Square', 'landmark-protest': true, within: 'tehran' },
+      village: { place: 'Small Village', 'city-small': true, coordinates: { lat: 36, lon: 52 } },
+      home: { sameAs: 'village' },
+      unknown: { place: 'Atlantis', 'city-small': true },
+    };
+
+    it('should follow landmarks to the bundled city', () => {
+      expect(resolveSourceCoordinates(markers, 'square', iran)).toEqual({ lat: 35.69, lon: 51.39 });
+    });
+
+    it("should prefer the marker's own coordinates", () => {
+      expect(resolveSourceCoordinates(markers, 'home', iran)).toEqual({ lat: 36, lon: 52 });
+    });
+
+    it('should return null for unknown places', () => {
+      expect(resolveSourceCoordinates(markers, 'unknown', iran)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Source contexts - the countries stories come from
+ *
+ * A story picks its source with the top-level `source-country` field. Scaling,
+ * currency conversion and explanations are computed against that source.
+ * Data: src/lib/data/contexts/source-contexts.yaml
+ */
+
+import type { Marker, SourceContext, SourceCity, Coordinates } from '../types/index.ts';
+
+/**
+ * Source city with a known population (from the marker or source-contexts.yaml)
+ */
+export type SourceCityPopulation = Pick<SourceCity, 'name' | 'population'> &
+  Partial<Pick<SourceCity, 'province'>>;
+
+/**
+ * Source country of stories without a `source-country` field
+ */
+export const DEFAULT_SOURCE_COUNTRY = 'IR';
+
+/**
+ * Get a source context by code
+ * @throws Error when the code has no entry in source-contexts.yaml
+ */
+export function getSourceContext(
+  sourceContexts: SourceContext[],
+  code: string = DEFAULT_SOURCE_COUNTRY
+): SourceContext {
+  const source = sourceContexts.find((s) => s.code === code);
+  if (!source) {
+    throw new Error(`Unknown source country: ${code}`);
+  }
+  return source;
+}
+
+/**
+ * Local currency units per unit of the source currency (converted through the US dollar)
+ * @param localPerUsd - The country's `units-per-usd` rate from countries.yaml
+ */
+export function getExchangeRate(localPerUsd: number, source: SourceContext): number {
+  return localPerUsd / source['units-per-usd'];
+}
+
+/**
+ * Find a source city by name
+ */
+export function findSourceCity(source: SourceContext, cityName: string): SourceCity | null {
+  return source.cities.find((city) => city.name === cityName) ?? null;
+}
+
+/**
+ * Find the source city a place marker refers to, with its population
+ * Follows aliases and 'within' parents, so a landmark reports the city it sits in.
+ * The marker's own `population` wins over source-contexts.yaml.
+ */
+export function resolveSourceCity(
+  markers: Record<string, Marker>,
+  key: string,
+  source: SourceContext,
+  visited: Set<string> = new Set()
+): SourceCityPopulation | null {
+  const marker = markers[key];
+  if (!marker || visited.has(key)) return null;
+  visited.add(key);
+
+  if ('sameAs' in marker) {
+    return resolveSourceCity(markers, marker.sameAs, source, visited);
+  }
+  if (!('place' in marker)) return null;
+  if (marker.within) {
+    return resolveSourceCity(markers, marker.within, source, visited);
+  }
+
+  const city = findSourceCity(source, marker.place);
+  const population = marker.population ?? city?.population;
+  if (!population) return null;
+  return { name: marker.place, population, province: city?.province };
+}
+
+/**
+ * Find the source coordinates of a place marker
+ * Follows aliases and 'within' parents like resolveSourceCity. The marker's own
+ * `coordinates` win over source-contexts.yaml.
+ */
+export function resolveSourceCoordinates(
+  markers: Record<string, Marker>,
+  key: string,
+  source: SourceContext,
+  visited: Set<string> = new Set()
+): Coordinates | null {
+  const marker = markers[key];
+  if (!marker || visited.has(key)) return null;
+  visited.add(key);
+
+  if ('sameAs' in marker) {
+    return resolveSourceCoordinates(markers, marker.sameAs, source, visited);
+  }
+  if (!('place' in marker)) return null;
+  if (marker.coordinates) return marker.coordinates;
+  if (marker.within) {
+    return resolveSourceCoordinates(markers, marker.within, source, visited);
+  }
+
+  return findSourceCity(source, marker.place)?.coordinates ?? null;
+}
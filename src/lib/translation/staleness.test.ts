@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { hashContent } from '$lib/utils/hash';
+import { checkStaleness, computeBuiltFrom, describeStaleness } from './staleness';
+import type { ContextSources } from './staleness';
+
+const STORY = {
+  title: 'Arrest of [[person1]]',
+  summary: 'A story',
+  content: '[[person1]] was arrested.',
+  markers: { person1: { person: 'Zahra', gender: 'female' } },
+  sources: [{ id: 'bbc', url: 'https://bbc.com' }],
+};
+
+const SOURCES: ContextSources = {
+  countries: [{ code: 'DE' }, { code: 'FR' }],
+  names: { DE: { female: ['Lena'] }, FR: { female: ['Camille'] } },
+  places: {},
+  comparableEvents: {},
+  comparisonPhrases: { en: { twice: 'twice' } },
+  sourceContexts: [{ code: 'IR' }],
+};
+
+describe('staleness', () => {
+  it('should hash data regardless of key order', () => {
+    expect(hashContent({ a: 1, b: [1, { c: 2, d: 3 }] })).toBe(
+      hashContent({ b: [1, { d: 3, c: 2 }], a: 1 })
+    );
+    expect(hashContent({ a: 1 })).not.toBe(hashContent({ a: 2 }));
+  });
+
+  it('should not be stale when nothing changed', () => {
+    const builtFrom = computeBuiltFrom(STORY, 'DE', SOURCES);
+    expect(checkStaleness(builtFrom, computeBuiltFrom({ ...STORY }, 'DE', SOURCES))).toEqual({
+      stale: false,
+    });
+  });
+
+  it('should report story and marker changes', () => {
+    const builtFrom = computeBuiltFrom(STORY, 'DE', SOURCES);
+    const edited = {
+      ...STORY,
+      markers: { person1: { person: 'Mahsa', gender: 'female' } },
+    };
+
+    const staleness = checkStaleness(builtFrom, computeBuiltFrom(edited, 'DE', SOURCES));
+    expect(staleness).toEqual({ stale: true, reasons: ['story'] });
+    expect(describeStaleness(staleness)).toBe('story changed');
+  });
+
+  it('should ignore sources, which are resolved at runtime', () => {
+    const builtFrom = computeBuiltFrom(STORY, 'DE', SOURCES);
+    const edited = { ...STORY, sources: [] };
+
+    expect(checkStaleness(builtFrom, computeBuiltFrom(edited, 'DE', SOURCES)).stale).toBe(false);
+  });
+
+  it("should only report context changes of the file's country", () => {
+    const builtFrom = computeBuiltFrom(STORY, 'DE', SOURCES);
+    const otherCountry = { ...SOURCES, names: { ...SOURCES.names, FR: { female: ['Léa'] } } };
+    const sameCountry = { ...SOURCES, names: { ...SOURCES.names, DE: { female: ['Anna'] } } };
+
+    expect(checkStaleness(builtFrom, computeBuiltFrom(STORY, 'DE', otherCountry)).stale).toBe(
+      false
+    );
+    expect(checkStaleness(builtFrom, computeBuiltFrom(STORY, 'DE', sameCountry))).toEqual({
+      stale: true,
+      reasons: ['context'],
+    });
+  });
+
+  it('should report files without hashes as unrecorded, not stale', () => {
+    const staleness = checkStaleness(undefined, computeBuiltFrom(STORY, 'DE', SOURCES));
+    expect(staleness).toEqual({ stale: false, unrecorded: true });
+    expect(describeStaleness(staleness)).toBe('');
+  });
+});
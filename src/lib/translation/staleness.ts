@@ -0,0 +1,110 @@
+/**
+ * Staleness of pre-translated stories
+ *
+ * The translate script records what a pre-translated file was built from as
+ * `built-from` hashes: the source story (text, markers, source country) and the
+ * context data of the target country. When either changes, the file no longer
+ * matches what translating the story again would produce. Files translated
+ * before hashes were recorded can't be checked, so they are reported as
+ * unrecorded rather than stale (`npm run validate` warns about both).
+ */
+
+import { hashContent } from '../utils/hash.ts';
+import { DEFAULT_SOURCE_COUNTRY } from './source-context.ts';
+
+/**
+ * Hashes recorded in a pre-translated file (`built-from`)
+ */
+export interface BuiltFrom {
+  story: string;
+  context: string;
+}
+
+/**
+ * Context data files, as parsed from src/lib/data/contexts/
+ */
+export interface ContextSources {
+  countries: Array<{ code: string }>; // countries.yaml `countries`
+  names: Record<string, unknown>; // names.yaml
+  places: Record<string, unknown>; // places.yaml
+  comparableEvents: Record<string, unknown>; // comparable-events.yaml
+  comparisonPhrases: Record<string, unknown>; // comparison-phrases.yaml
+  sourceContexts: Array<{ code: string }>; // source-contexts.yaml `source-contexts`
+}
+
+export type Staleness =
+  | { stale: false; unrecorded?: true } // unrecorded: no built-from hashes to compare
+  | { stale: true; reasons: Array<'story' | 'context'> };
+
+/**
+ * Hash the parts of a story that shape its pre-translated text
+ * Sources and images are resolved at runtime, so they don't count.
+ */
+export function hashStory(story: Record<string, unknown>): string {
+  return hashContent({
+    title: story.title,
+    summary: story.summary,
+    content: story.content,
+    markers: story.markers,
+    sourceCountry: story['source-country'] ?? DEFAULT_SOURCE_COUNTRY,
+  });
+}
+
+/**
+ * Hash the context data a story is translated with for one country
+ * Stories are contextualized in English before translation, so the English
+ * comparison phrases count.
+ */
+export function hashContext(
+  countryCode: string,
+  sourceCountry: string | undefined,
+  sources: ContextSources
+): string {
+  const source = sourceCountry ?? DEFAULT_SOURCE_COUNTRY;
+  return hashContent({
+    country: sources.countries.find((country) => country.code === countryCode),
+    names: sources.names[countryCode],
+    places: sources.places[countryCode],
+    comparableEvents: sources.comparableEvents[countryCode],
+    comparisonPhrases: sources.comparisonPhrases.en,
+    source: sources.sourceContexts.find((context) => context.code === source),
+  });
+}
+
+/**
+ * Hashes to record for a story translated for a country
+ */
+export function computeBuiltFrom(
+  story: Record<string, unknown>,
+  countryCode: string,
+  sources: ContextSources
+): BuiltFrom {
+  return {
+    story: hashStory(story),
+    context: hashContext(countryCode, story['source-country'] as string | undefined, sources),
+  };
+}
+
+/**
+ * Compare the hashes a pre-translated file recorded with the current ones
+ */
+export function checkStaleness(recorded: BuiltFrom | undefined, current: BuiltFrom): Staleness {
+  if (!recorded) return { stale: false, unrecorded: true };
+
+  const reasons = (['story', 'context'] as const).filter(
+    (part) => recorded[part] !== current[part]
+  );
+  return reasons.length > 0 ? { stale: true, reasons } : { stale: false };
+}
+
+const REASON_TEXT = {
+  story: 'story changed',
+  context: 'context data changed',
+};
+
+/**
+ * Why a pre-translated file is stale, for reports and diagnostics
+ */
+export function describeStaleness(staleness: Staleness): string {
+  return staleness.stale ? staleness.reasons.map((reason) => REASON_TEXT[reason]).join(', ') : '';
+}
@@ -6,14 +6,70 @@ export interface Country {
   population: number;
   currency: string;
   'currency-symbol': string;
-  'rial-to-local': number;
+  'units-per-usd': number; // Local currency units one US dollar buys
   timezones: string[];
 }
 
+/**
+ * Geographic position in decimal degrees
+ */
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+export interface SourceCity {
+  name: string;
+  population: number;
+  province: string;
+  coordinates: Coordinates;
+}
+
+/**
+ * Country a story comes from (selected by the story's `source-country`)
+ */
+export interface SourceContext {
+  code: CountryCode;
+  name: string;
+  population: number;
+  currency: string; // ISO 4217 code of currency markers
+  'currency-name': string; // Shown with original amounts (e.g., 'Rial')
+  'units-per-usd': number; // Units of `currency` one US dollar buys (as countries give theirs)
+  calendar?: string; // Unicode calendar id of original dates (e.g., 'persian'; default: Gregorian)
+  cities: SourceCity[];
+}
+
+/**
+ * A name with how common it is, and the community it is common in
+ */
+export interface WeightedName {
+  name: string;
+  weight?: number; // Relative frequency within its pool, e.g. births (default: 1)
+  community?: string; // Immigrant or minority community (e.g. 'hispanic'); mainstream names have none
+}
+
+export type NameEntry = string | WeightedName;
+
+export interface NameLists {
+  male: NameEntry[];
+  female: NameEntry[];
+  neutral: NameEntry[];
+}
+
+export interface CountryNames extends NameLists {
+  regional?: Record<string, Partial<NameLists>>; // Region id (matches CityData.region) -> name pools
+  decades?: Record<string, Partial<NameLists>>; // Birth decade (e.g. '1990') -> name pools, for people with an age
+}
+
 export interface NameMappings {
-  [country: string]: {
-    male: string[];
-    female: string[];
-    neutral: string[];
-  };
+  [country: string]: CountryNames;
+}
+
+/**
+ * Languages spoken per country (country-languages.yaml)
+ */
+export interface CountryLanguages {
+  countries: Record<string, { languages: string[] }>;
+  language_names: Record<string, string>;
+  pretranslated_fallbacks?: Record<string, string[]>; // Language → countries, in order
 }
@@ -8,6 +8,9 @@
  * - Type detection from properties, not explicit 'type' field
  */
 
+import { getMarkerDefinition } from '../translation/markers/index.ts';
+import type { Coordinates } from './context.ts';
+
 export type Gender = 'm' | 'f' | 'x'; // male, female, neutral
 
 /**
@@ -41,6 +44,8 @@ export interface PlaceMarker {
   within?: string; // Parent place marker key (e.g., city contains landmark)
   region?: string; // Geographic region
   population?: number; // City population (for better scaling)
+  coordinates?: Coordinates; // Source position (defaults to the source-contexts.yaml city)
+  distanceFrom?: string; // Place marker key - pick a local city at a matching relative distance
 }
 
 /**
@@ -81,6 +86,17 @@ export interface CasualtiesMarker {
   timeframe?: string; // Optional context (e.g., 'over two days', 'in one night')
 }
 
+/**
+ * Distance Marker - Distance between places, with optional travel time
+ */
+export interface DistanceMarker {
+  distance: number; // Kilometers in the source story
+  scaled?: boolean; // Scale to the local geography (by from/to cities, else country extent)
+  from?: string; // Place marker key of the start
+  to?: string; // Place marker key of the destination
+  travel?: 'driving' | 'walking'; // Also show the travel time
+}
+
 /**
  * Date Marker - Temporal dates
  */
@@ -146,6 +162,7 @@ export type Marker =
   | PlaceMarker
   | NumberMarker
   | CasualtiesMarker
+  | DistanceMarker
   | DateMarker
   | TimeMarker
   | AliasMarker
@@ -156,20 +173,10 @@ export type Marker =
 /**
  * Runtime type detection for V2 markers
  * Detects type from marker properties instead of explicit 'type' field
+ * (detection predicates live in the marker registry, translation/markers/)
  */
 export function getMarkerType(marker: Marker): string {
-  if ('person' in marker) return 'person';
-  if ('place' in marker) return 'place';
-  if ('number' in marker) return 'number';
-  if ('casualties' in marker) return 'casualties';
-  if ('date' in marker) return 'date';
-  if ('time' in marker) return 'time';
-  if ('text' in marker) return 'text';
-  if ('occupation' in marker) return 'occupation';
-  if ('currency' in marker) return 'currency';
-  if ('sameAs' in marker) return 'alias';
-  if ('type' in marker) return marker.type; // source, image, paragraph-break
-  return 'unknown';
+  return getMarkerDefinition(marker)?.type ?? 'unknown';
 }
 
 /**
@@ -191,6 +198,10 @@ export function isCasualtiesMarker(marker: Marker): marker is CasualtiesMarker {
   return 'casualties' in marker;
 }
 
+export function isDistanceMarker(marker: Marker): marker is DistanceMarker {
+  return 'distance' in marker;
+}
+
 export function isAliasMarker(marker: Marker): marker is AliasMarker {
   return 'sameAs' in marker;
 }
@@ -1,3 +1,5 @@
+import type { Explanation } from '../translation/explanations.ts';
+
 // Re-export V2 marker types
 export * from './markers-v2.ts';
 
@@ -32,6 +34,7 @@ export interface Story {
   summary: string;
   content: string;
   markers: Record<string, import('./markers-v2').Marker>;
+  'source-country'?: string; // Source context code (default: IR)
   sources?: SourceReference[]; // New: dedicated sources array
   images?: ImageReference[]; // New: dedicated images array
   tags: string[];
@@ -55,8 +58,8 @@ export interface TranslatedSegment {
   url?: string; // For source markers
   title?: string; // Deprecated - use tooltip instead
   tooltip?: string; // Tooltip text for hover (replaces title)
-  explanation?: string; // Math explanation for scaled values
-  comparisonExplanation?: string; // Math explanation for casualty comparison
+  explanation?: Explanation; // Math behind scaled values
+  comparisonExplanation?: Explanation; // Math behind the casualty comparison
   // Image-specific fields
   src?: string; // Image source
   alt?: string; // Alt text
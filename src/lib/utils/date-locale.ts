@@ -5,6 +5,7 @@
 import { format } from 'date-fns';
 import { enUS, cs, fr, de, es, it, nl, sv, nb, da, fi, pl, pt } from 'date-fns/locale';
 import type { Locale } from 'date-fns';
+import { toIntlLocale } from './number-locale.ts';
 
 const localeMap: Record<string, Locale> = {
   en: enUS,
@@ -44,6 +45,52 @@ export function formatDateLocalized(
   }
 }
 
+/**
+ * Format a date string in another calendar, named in a specific language
+ * (e.g., "Shahrivar 29, 1401 AP" for 2022-09-20 in the Persian calendar)
+ * @param dateString - ISO date string (e.g., "2022-09-20")
+ * @param languageCode - Language code (e.g., "cs", "fr")
+ * @param calendar - Unicode calendar id (e.g., "persian")
+ */
+export function formatDateInCalendar(
+  dateString: string,
+  languageCode: string = 'en',
+  calendar: string
+): string {
+  try {
+    return new Intl.DateTimeFormat(toIntlLocale(languageCode), {
+      calendar,
+      dateStyle: 'long',
+      timeZone: 'UTC',
+    }).format(new Date(dateString));
+  } catch (error) {
+    console.warn(`Failed to format date: ${dateString} (${calendar})`, error);
+    return dateString;
+  }
+}
+
+/**
+ * Format a time of day for a language/country ("21:30" is "9:30 PM" in the US)
+ * @param time - 24-hour time (e.g., "21:30")
+ * @param languageCode - Language code (e.g., "cs", "fr")
+ * @param countryCode - Country code used for regional conventions (e.g., "US")
+ */
+export function formatTimeLocalized(
+  time: string,
+  languageCode: string = 'en',
+  countryCode?: string
+): string {
+  try {
+    return new Intl.DateTimeFormat(toIntlLocale(languageCode, countryCode), {
+      timeStyle: 'short',
+      timeZone: 'UTC',
+    }).format(new Date(`1970-01-01T${time}:00Z`));
+  } catch (error) {
+    console.warn(`Failed to format time: ${time}`, error);
+    return time;
+  }
+}
+
 /**
  * Get the date-fns locale for a language code
  */
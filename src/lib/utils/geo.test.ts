@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { haversineKm, spanKm } from './geo';
+
+const TEHRAN = { lat: 35.69, lon: 51.39 };
+const MASHHAD = { lat: 36.3, lon: 59.61 };
+const ZAHEDAN = { lat: 29.5, lon: 60.86 };
+
+describe('geo', () => {
+  it('should measure great-circle distances', () => {
+    expect(haversineKm(TEHRAN, MASHHAD)).toBeCloseTo(740, -1);
+    expect(haversineKm({ lat: 0, lon: 0 }, { lat: 0, lon: 1 })).toBeCloseTo(111.19, 1);
+    expect(haversineKm(TEHRAN, TEHRAN)).toBe(0);
+  });
+
+  it('should find the largest pairwise distance', () => {
+    expect(spanKm([TEHRAN, MASHHAD, ZAHEDAN])).toBe(haversineKm(TEHRAN, ZAHEDAN));
+    expect(spanKm([TEHRAN])).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Geographic helpers for distance-preserving relocation
+ *
+ * Distances are great-circle (straight-line) kilometers. A country's span is
+ * the largest distance between two of its cities, so a distance can be
+ * compared across countries as a share of the span.
+ */
+
+import type { Coordinates } from '../types/index.ts';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometers (haversine formula)
+ */
+export function haversineKm(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Largest distance between any two points in kilometers (0 for fewer than two)
+ */
+export function spanKm(points: Coordinates[]): number {
+  let span = 0;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      span = Math.max(span, haversineKm(points[i], points[j]));
+    }
+  }
+  return span;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toIntlLocale,
+  formatNumberLocalized,
+  formatCurrencyLocalized,
+  getPluralCategory,
+  selectPluralForm,
+} from './number-locale';
+
+// Intl separates groups and symbols with (narrow) no-break spaces
+const normalizeSpaces = (text: string) => text.replace(/[\u00a0\u202f]/g, ' ');
+
+describe('number-locale', () => {
+  describe('toIntlLocale', () => {
+    it('should combine language and country into a locale tag', () => {
+      expect(toIntlLocale('de', 'BE')).toBe('de-BE');
+      expect(toIntlLocale('fr')).toBe('fr');
+    });
+
+    it('should map our codes to BCP 47 equivalents', () => {
+      expect(toIntlLocale('no', 'NO')).toBe('nb-NO');
+      expect(toIntlLocale('en', 'UK')).toBe('en-GB');
+    });
+  });
+
+  describe('formatNumberLocalized', () => {
+    it('should use the grouping conventions of the locale', () => {
+      expect(formatNumberLocalized(1680, 'en', 'US')).toBe('1,680');
+      expect(formatNumberLocalized(1680, 'de', 'DE')).toBe('1.680');
+      expect(normalizeSpaces(formatNumberLocalized(16800, 'cs', 'CZ'))).toBe('16 800');
+    });
+
+    it('should pass through format options', () => {
+      expect(
+        formatNumberLocalized(2.5, 'de', 'DE', {
+          minimumFractionDigits: 1,
+          maximumFractionDigits: 1,
+        })
+      ).toBe('2,5');
+      expect(formatNumberLocalized(0.25, 'en', 'US', { style: 'percent' })).toBe('25%');
+    });
+  });
+
+  describe('formatCurrencyLocalized', () => {
+    it('should place the currency symbol the way the locale does', () => {
+      expect(formatCurrencyLocalized(1680, 'USD', 'en', 'US')).toBe('$1,680');
+      expect(normalizeSpaces(formatCurrencyLocalized(1680, 'EUR', 'de', 'BE'))).toBe('1.680 €');
+      expect(normalizeSpaces(formatCurrencyLocalized(1680, 'CZK', 'cs', 'CZ'))).toBe('1 680 Kč');
+    });
+  });
+
+  describe('plural rules', () => {
+    it('should return the plural category for a count', () => {
+      expect(getPluralCategory(1, 'en')).toBe('one');
+      expect(getPluralCategory(3, 'cs')).toBe('few');
+      expect(getPluralCategory(5, 'pl')).toBe('many');
+    });
+
+    it('should fall back to the other form', () => {
+      const forms = { one: 'casualty', other: 'casualties' };
+      expect(selectPluralForm(1, forms)).toBe('casualty');
+      expect(selectPluralForm(7, forms)).toBe('casualties');
+      expect(selectPluralForm(3, { one: 'oběť', other: 'obětí' }, 'cs')).toBe('obětí');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Number localization utilities using Intl.NumberFormat and Intl.PluralRules
+ *
+ * Formatting is keyed by the reader's language and the context country, so a
+ * German reader with Belgian context sees "1.680 €" and an English reader with
+ * US context sees "$1,680".
+ */
+
+// Language codes in our data that differ from their BCP 47 equivalents
+const LANGUAGE_TAGS: Record<string, string> = {
+  no: 'nb', // Norwegian Bokmål
+};
+
+// Country codes in our data that differ from ISO 3166 region codes
+const REGION_TAGS: Record<string, string> = {
+  UK: 'GB',
+};
+
+const numberFormatCache = new Map<string, Intl.NumberFormat>();
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+
+/**
+ * Build a BCP 47 locale tag from our language and country codes
+ * @param languageCode - Language code (e.g., "de", "no")
+ * @param countryCode - Country code (e.g., "BE", "UK")
+ */
+export function toIntlLocale(languageCode: string = 'en', countryCode?: string): string {
+  const language = LANGUAGE_TAGS[languageCode] || languageCode;
+  if (!countryCode) return language;
+
+  const region = REGION_TAGS[countryCode.toUpperCase()] || countryCode.toUpperCase();
+  const tag = `${language}-${region}`;
+  try {
+    return Intl.getCanonicalLocales(tag)[0];
+  } catch {
+    return language;
+  }
+}
+
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const cacheKey = `${locale}|${JSON.stringify(options)}`;
+  let formatter = numberFormatCache.get(cacheKey);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(locale, options);
+    } catch {
+      formatter = new Intl.NumberFormat('en', options);
+    }
+    numberFormatCache.set(cacheKey, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Format a number for a language/country
+ * @param value - Number to format
+ * @param languageCode - Language code (e.g., "cs", "fr")
+ * @param countryCode - Country code used for regional conventions (e.g., "BE")
+ * @param options - Extra Intl.NumberFormat options (e.g., fraction digits, percent style)
+ */
+export function formatNumberLocalized(
+  value: number,
+  languageCode: string = 'en',
+  countryCode?: string,
+  options: Intl.NumberFormatOptions = {}
+): string {
+  return getNumberFormat(toIntlLocale(languageCode, countryCode), options).format(value);
+}
+
+/**
+ * Format a whole-unit currency amount for a language/country
+ * @param amount - Amount in the currency's major unit
+ * @param currency - ISO 4217 currency code (e.g., "EUR")
+ * @param languageCode - Language code (e.g., "de")
+ * @param countryCode - Country code used for regional conventions (e.g., "BE")
+ */
+export function formatCurrencyLocalized(
+  amount: number,
+  currency: string,
+  languageCode: string = 'en',
+  countryCode?: string
+): string {
+  return getNumberFormat(toIntlLocale(languageCode, countryCode), {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Get the plural category of a count for a language ("one", "few", "other", ...)
+ */
+export function getPluralCategory(count: number, languageCode: string = 'en'): Intl.LDMLPluralRule {
+  const locale = toIntlLocale(languageCode);
+  let rules = pluralRulesCache.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRulesCache.set(locale, rules);
+  }
+  return rules.select(count);
+}
+
+/**
+ * Pick the plural form of a word for a count
+ * @param forms - Forms keyed by plural category; 'other' is required as fallback
+ */
+export function selectPluralForm(
+  count: number,
+  forms: Partial<Record<Intl.LDMLPluralRule, string>> & { other: string },
+  languageCode: string = 'en'
+): string {
+  return forms[getPluralCategory(count, languageCode)] ?? forms.other;
+}
@@ -0,0 +1,56 @@
+/**
+ * Seedable random numbers
+ *
+ * Every seeded choice in translation draws from here, so the same story,
+ * marker and country always give the same values - in the browser, the
+ * pipeline and scripts alike. A string seed is hashed (cyrb53) into the state
+ * of a mulberry32 generator. Named streams give one seed independent
+ * sequences, so e.g. a marker's city doesn't decide its landmark.
+ */
+
+import { cyrb53 } from './hash.ts';
+
+/**
+ * Generator of numbers in [0, 1)
+ */
+export type Random = () => number;
+
+/**
+ * mulberry32: small, fast 32-bit generator with good spread
+ */
+export function mulberry32(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createRandom(seed: string): Random {
+  return mulberry32(cyrb53(seed));
+}
+
+/**
+ * Independent generators of one seed, by name (created on first use)
+ */
+export function createStreams(seed: string): (name: string) => Random {
+  const streams = new Map<string, Random>();
+  return (name) => {
+    let stream = streams.get(name);
+    if (!stream) {
+      stream = createRandom(`${seed}/${name}`);
+      streams.set(name, stream);
+    }
+    return stream;
+  };
+}
+
+/**
+ * Index of a random item of a list of the given length
+ */
+export function randomIndex(length: number, random: Random): number {
+  return Math.floor(random() * length);
+}
@@ -1,7 +1,7 @@
 import type { PageLoad, EntryGenerator } from './$types';
 import { getStoryBySlug } from '$lib/data/stories';
 import { getShareRouteEntries } from '$lib/utils/share-routes';
-import { translateStory } from '$lib/translation/pipeline';
+import { loadTranslatedStory } from '$lib/translation/precomputed';
 import { error as throwError } from '@sveltejs/kit';
 import type { CountryCode } from '$lib/types';
 
@@ -20,7 +20,7 @@ export const entries: EntryGenerator = () => {
   });
 };
 
-export const load: PageLoad = async ({ params }) => {
+export const load: PageLoad = async ({ params, fetch }) => {
   const { slug, country, lang } = params;
   const countryCode = country.toUpperCase() as CountryCode;
 
@@ -32,12 +32,18 @@ export const load: PageLoad = async ({ params }) => {
 
   // Use pipeline to translate the story
   try {
-    const translated = translateStory({
-      storySlug: slug,
-      country: countryCode,
-      language: lang,
-      contextualizationEnabled: true, // Always use contextualization for share images
-    });
+    const translated = await loadTranslatedStory(
+      {
+        storySlug: slug,
+        country: countryCode,
+        language: lang,
+        contextualizationEnabled: true, // Always use contextualization for share images
+      },
+      fetch
+    );
+    if (!translated) {
+      throw new Error('No translation for this country and language');
+    }
 
     // Extract plain text from segments
     const translatedTitle = translated.title.map((s) => s.text).join('');
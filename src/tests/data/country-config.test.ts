@@ -20,6 +20,7 @@ const countryLanguagesData = load(
 ) as {
   countries: Record<string, { languages: string[] }>;
   language_names: Record<string, string>;
+  pretranslated_fallbacks?: Record<string, string[]>;
 };
 const namesData = load(readFileSync(join(DATA_DIR, 'names.yaml'), 'utf-8')) as Record<
   string,
@@ -52,7 +53,7 @@ describe('Country Configuration Validation', () => {
         expect(country).toHaveProperty('population');
         expect(country).toHaveProperty('currency');
         expect(country).toHaveProperty('currency-symbol');
-        expect(country).toHaveProperty('rial-to-local');
+        expect(country).toHaveProperty('units-per-usd');
         expect(country).toHaveProperty('timezones');
 
         // Validate types
@@ -61,7 +62,7 @@ describe('Country Configuration Validation', () => {
         expect(typeof country['population']).toBe('number');
         expect(typeof country['currency']).toBe('string');
         expect(typeof country['currency-symbol']).toBe('string');
-        expect(typeof country['rial-to-local']).toBe('number');
+        expect(typeof country['units-per-usd']).toBe('number');
         expect(Array.isArray(country['timezones'])).toBe(true);
         expect(country['timezones'].length).toBeGreaterThan(0);
       });
@@ -133,6 +134,29 @@ describe('Country Configuration Validation', () => {
 
       expect(missingLanguageNames).toHaveLength(0);
     });
+
+    it('should only fall back on countries that speak the language', () => {
+      const invalidFallbacks: string[] = [];
+
+      Object.entries(countryLanguagesData.pretranslated_fallbacks ?? {}).forEach(
+        ([lang, fallbackCountries]) => {
+          fallbackCountries.forEach((code) => {
+            if (!countryLanguagesData.countries[code]?.languages.includes(lang)) {
+              invalidFallbacks.push(`${lang}: ${code}`);
+            }
+          });
+        }
+      );
+
+      if (invalidFallbacks.length > 0) {
+        throw new Error(
+          `Pre-translated fallbacks to countries without the language: ${invalidFallbacks.join(', ')}\n` +
+            `Fix the pretranslated_fallbacks section in src/lib/data/contexts/country-languages.yaml`
+        );
+      }
+
+      expect(invalidFallbacks).toHaveLength(0);
+    });
   });
 
   describe('names.yaml', () => {
@@ -0,0 +1,47 @@
+// Story and context YAML, parsed and validated by scripts/vite-plugin-yaml-data.ts
+// Pre-translated stories (story.{lang}-{country}.yaml) are imported with import.meta.glob
+
+declare module '*/story.yaml' {
+  const story: import('$lib/types').Story;
+  export default story;
+}
+
+declare module '*/countries.yaml' {
+  const data: { countries: import('$lib/types').Country[] };
+  export default data;
+}
+
+declare module '*/names.yaml' {
+  const names: import('$lib/types').NameMappings;
+  export default names;
+}
+
+declare module '*/places.yaml' {
+  const places: Record<string, import('$lib/translation/core').PlacesDataV2>;
+  export default places;
+}
+
+declare module '*/comparable-events.yaml' {
+  const events: Record<string, import('$lib/translation/core').ComparableEvent[]>;
+  export default events;
+}
+
+declare module '*/comparison-phrases.yaml' {
+  const phrases: Record<string, import('$lib/translation/core').ComparisonPhrases>;
+  export default phrases;
+}
+
+declare module '*/explanation-phrases.yaml' {
+  const phrases: Record<string, import('$lib/translation/explanations').ExplanationPhrases>;
+  export default phrases;
+}
+
+declare module '*/country-languages.yaml' {
+  const data: import('$lib/types').CountryLanguages;
+  export default data;
+}
+
+declare module '*/source-contexts.yaml' {
+  const data: { 'source-contexts': import('$lib/types').SourceContext[] };
+  export default data;
+}
@@ -1,9 +1,10 @@
 import { sveltekit } from '@sveltejs/kit/vite';
 import { svelte_component_to_image } from 'svelte-component-to-image/vite';
 import { defineConfig } from 'vitest/config';
+import { yamlData } from './scripts/vite-plugin-yaml-data';
 
 export default defineConfig({
-  plugins: [sveltekit()],
+  plugins: [yamlData(), sveltekit()],
   server: {
     host: true, // Listen on all addresses
     allowedHosts: ['localhost', '.ngrok.io', '.ngrok-free.dev', '.ngrok.app'],
@@ -12,7 +13,7 @@ export default defineConfig({
     },
   },
   test: {
-    include: ['src/**/*.{test,spec}.{js,ts}'],
+    include: ['src/**/*.{test,spec}.{js,ts}', 'scripts/**/*.test.ts'],
     globals: true,
     environment: 'jsdom',
   },